@@ -3,7 +3,7 @@ module.exports = {
   parserOptions: {
     ecmaVersion: 2020,
     sourceType: 'module',
-    project: './tsconfig.json',
+    project: './tsconfig.test.json',
   },
   plugins: ['@typescript-eslint', 'prettier'],
   extends: [
@@ -1,8 +1,15 @@
+const fs = require('fs');
+const path = require('path');
+
+// test/ holds local integration tests and is not part of the repository
+const hasLocalTests = fs.existsSync(path.join(__dirname, 'test'));
+const hasLocalSetup = fs.existsSync(path.join(__dirname, 'test', 'setup.ts'));
+
 /** @type {import('jest').Config} */
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
-  roots: ['<rootDir>/src', '<rootDir>/test'],
+  roots: ['<rootDir>/src', ...(hasLocalTests ? ['<rootDir>/test'] : [])],
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
   transform: {
     '^.+\\.ts$': 'ts-jest',
@@ -21,6 +28,6 @@ module.exports = {
     '^@/utils/(.*)$': '<rootDir>/src/utils/$1',
     '^@/credentials/(.*)$': '<rootDir>/src/credentials/$1',
   },
-  setupFilesAfterEnv: ['<rootDir>/test/setup.ts'],
+  setupFilesAfterEnv: hasLocalSetup ? ['<rootDir>/test/setup.ts'] : [],
   testTimeout: 30000,
-};
\ No newline at end of file
+};
@@ -1,7 +1,31 @@
+import * as crypto from 'crypto';
+import { PDFDocument } from 'pdf-lib';
 import { Logger } from '../utils/logger';
-import { ValidationResult, ConversionInput, ConversionResult } from '../types';
+import {
+  ValidationResult,
+  ConversionInput,
+  ConversionResult,
+  BaseOptions,
+  DocumentProperties,
+  PdfSecurityOptions,
+  WatermarkOptions,
+} from '../types';
 import { logger } from '../utils/logger';
-import { createError } from '../utils/errors';
+import { createError, isConversionError } from '../utils/errors';
+import { encryptPdf, hasPasswordProtection } from '../utils/pdfSecurity';
+import { applyWatermark, hasWatermark } from '../utils/watermark';
+import { applyDocumentProperties, hasDocumentProperties } from '../utils/documentProperties';
+import { convertToPdfA, validatePdfA } from '../utils/pdfa';
+
+// Named page sizes in points (portrait), used to report the output format
+const PAGE_FORMATS: Array<[string, number, number]> = [
+  ['A3', 842, 1191],
+  ['A4', 595, 842],
+  ['A5', 420, 595],
+  ['Letter', 612, 792],
+  ['Legal', 612, 1008],
+  ['Tabloid', 792, 1224],
+];
 
 export abstract class BaseConverter<TOptions = any> {
   protected logger: Logger;
@@ -123,13 +147,74 @@ export abstract class BaseConverter<TOptions = any> {
   /**
    * Post-process the generated PDF
    */
-  protected async postProcess(buffer: Buffer): Promise<Buffer> {
+  protected async postProcess(buffer: Buffer, input: ConversionInput<TOptions>): Promise<Buffer> {
+    let result = buffer;
+
+    const watermark = this.getWatermarkOptions(input.options);
+    if (hasWatermark(watermark)) {
+      result = await applyWatermark(result, watermark, this.isPdfA(input.options));
+      this.logger.info('Applied watermark', {
+        type: watermark.image ? 'image' : 'text',
+        position: watermark.position || 'center',
+      });
+    }
+
+    const properties = this.getDocumentProperties(input.options);
+    if (hasDocumentProperties(properties)) {
+      result = await applyDocumentProperties(result, properties);
+      this.logger.info('Applied document properties');
+    }
+
+    const security = this.getSecurityOptions(input.options);
+    if (this.isPdfA(input.options)) {
+      if (security && hasPasswordProtection(security)) {
+        throw createError.invalidInput('PDF/A files cannot be password protected');
+      }
+      result = await convertToPdfA(result);
+      this.logger.info('Converted to PDF/A-2b');
+    }
+
+    // Encryption must stay the last stage, nothing can edit the PDF afterwards
+    if (security && hasPasswordProtection(security)) {
+      result = await encryptPdf(result, security);
+      this.logger.info('Applied password protection', {
+        algorithm: security.algorithm || 'aes256',
+      });
+    }
+
     this.logger.info(`Completed ${this.converterName} conversion`, {
-      size: buffer.length,
+      size: result.length,
     });
 
-    // Could add compression or optimization here
-    return buffer;
+    return result;
+  }
+
+  /**
+   * Get the watermark stamped on the output (override for converter-specific options)
+   */
+  protected getWatermarkOptions(options?: TOptions): WatermarkOptions | undefined {
+    return (options as BaseOptions | undefined)?.watermark;
+  }
+
+  /**
+   * Get the document information to set on the output
+   */
+  protected getDocumentProperties(options?: TOptions): DocumentProperties | undefined {
+    return (options as BaseOptions | undefined)?.documentProperties;
+  }
+
+  /**
+   * Get the encryption settings for the output (override for converter-specific options)
+   */
+  protected getSecurityOptions(options?: TOptions): PdfSecurityOptions | undefined {
+    return (options as BaseOptions | undefined)?.security;
+  }
+
+  /**
+   * Whether the output must be PDF/A-2b
+   */
+  protected isPdfA(options?: TOptions): boolean {
+    return !!(options as BaseOptions | undefined)?.pdfa;
   }
 
   /**
@@ -146,13 +231,24 @@ export abstract class BaseConverter<TOptions = any> {
       const buffer = await this.convert(processedInput);
 
       // Post-process
-      const finalBuffer = await this.postProcess(buffer);
+      const finalBuffer = await this.postProcess(buffer, processedInput);
+
+      const outputInfo = await this.describeOutput(finalBuffer);
+      const pdfa = this.isPdfA(processedInput.options)
+        ? await validatePdfA(finalBuffer)
+        : undefined;
+      // The report goes out with the file, the workflow decides what to do with it
+      if (pdfa && !pdfa.compliant) {
+        this.logger.warn('The output does not meet PDF/A-2b', { issues: pdfa.issues });
+      }
 
       const processingTime = Date.now() - startTime;
 
       return {
         pdf: finalBuffer,
         metadata: {
+          ...outputInfo,
+          ...(pdfa && { pdfa }),
           size: finalBuffer.length,
           generatedAt: new Date().toISOString(),
           processingTime,
@@ -161,6 +257,10 @@ export abstract class BaseConverter<TOptions = any> {
     } catch (error) {
       this.logger.error(`Conversion failed in ${this.converterName}:`, error);
 
+      // Keep the code of errors the converter raised itself, e.g. a wrong password
+      if (isConversionError(error)) {
+        throw error;
+      }
       if (error instanceof Error) {
         throw createError.conversionFailed(error.message);
       }
@@ -168,6 +268,57 @@ export abstract class BaseConverter<TOptions = any> {
     }
   }
 
+  /**
+   * Read page count, page size and content hash of the generated PDF
+   */
+  protected async describeOutput(
+    pdf: Buffer
+  ): Promise<Omit<ConversionResult['metadata'], 'size' | 'generatedAt' | 'processingTime'>> {
+    const hash = crypto.createHash('sha256').update(pdf).digest('hex');
+
+    try {
+      // The page tree stays readable when the output is encrypted
+      const document = await PDFDocument.load(pdf, {
+        ignoreEncryption: true,
+        updateMetadata: false,
+      });
+      const firstPage = document.getPages()[0];
+      if (!firstPage) {
+        return { pages: 0, hash };
+      }
+
+      const { width, height } = firstPage.getSize();
+      const pageSize = {
+        width: Math.round(width * 100) / 100,
+        height: Math.round(height * 100) / 100,
+      };
+
+      return {
+        pages: document.getPageCount(),
+        format: this.detectPageFormat(width, height),
+        pageSize,
+        hash,
+      };
+    } catch (error) {
+      this.logger.warn('Could not read the generated PDF for metadata', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { hash };
+    }
+  }
+
+  private detectPageFormat(width: number, height: number): string {
+    const short = Math.min(width, height);
+    const long = Math.max(width, height);
+
+    const match = PAGE_FORMATS.find(
+      ([, formatShort, formatLong]) =>
+        Math.abs(short - formatShort) <= 2 && Math.abs(long - formatLong) <= 2
+    );
+
+    return match ? match[0] : 'Custom';
+  }
+
   /**
    * Get content from input (helper method)
    */
@@ -0,0 +1,97 @@
+import { PDFDocument } from 'pdf-lib';
+import { Logger, logger } from '../utils/logger';
+import { ConversionInput, DocumentProperties, PdfSecurityOptions } from '../types';
+import { createError, isConversionError } from '../utils/errors';
+import { applyDocumentProperties, hasDocumentProperties } from '../utils/documentProperties';
+import { encryptPdf, hasPasswordProtection, loadPdfDocument } from '../utils/pdfSecurity';
+
+/**
+ * Base class for operations that read an existing PDF and produce something
+ * other than a single PDF (multiple documents, JSON, images, ...)
+ */
+export abstract class BasePdfOperation<TOptions, TResult> {
+  protected logger: Logger;
+  protected readonly maxFileSize: number;
+  protected readonly operationName: string;
+
+  constructor(
+    operationName: string,
+    maxFileSize: number = 50 * 1024 * 1024 // 50MB default
+  ) {
+    this.operationName = operationName;
+    this.logger = logger.child({ service: operationName });
+    this.maxFileSize = maxFileSize;
+  }
+
+  /**
+   * Main operation method to be implemented by subclasses
+   */
+  protected abstract run(input: ConversionInput<TOptions>): Promise<TResult>;
+
+  /**
+   * Execute the operation with input validation and error wrapping
+   */
+  public async execute(input: ConversionInput<TOptions>): Promise<TResult> {
+    if (!input.file) {
+      throw createError.missingFile('A PDF file is required');
+    }
+
+    if (input.file.data.length > this.maxFileSize) {
+      throw createError.fileTooLarge(
+        `File size exceeds maximum limit of ${this.maxFileSize} bytes`
+      );
+    }
+
+    this.logger.info(`Starting ${this.operationName}`, {
+      fileName: input.file.fileName,
+      size: input.file.data.length,
+    });
+
+    try {
+      return await this.run(input);
+    } catch (error) {
+      this.logger.error(`${this.operationName} failed:`, error);
+
+      // Keep the code of errors the operation raised itself, e.g. a wrong password
+      if (isConversionError(error)) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw createError.conversionFailed(error.message);
+      }
+      throw createError.conversionFailed(`Unknown error in ${this.operationName}`);
+    }
+  }
+
+  /**
+   * Load the input PDF, decrypting it when a password is given
+   */
+  protected async loadPdf(data: Buffer, password?: string): Promise<PDFDocument> {
+    return loadPdfDocument(data, password);
+  }
+
+  /**
+   * Set the document information and encrypt a PDF the operation produced,
+   * in the same order as the converters
+   */
+  protected async finishPdf(
+    pdf: Buffer,
+    options: { documentProperties?: DocumentProperties; security?: PdfSecurityOptions }
+  ): Promise<Buffer> {
+    let result = pdf;
+
+    if (hasDocumentProperties(options.documentProperties)) {
+      result = await applyDocumentProperties(result, options.documentProperties);
+      this.logger.info('Applied document properties');
+    }
+
+    if (options.security && hasPasswordProtection(options.security)) {
+      result = await encryptPdf(result, options.security);
+      this.logger.info('Applied password protection', {
+        algorithm: options.security.algorithm || 'aes256',
+      });
+    }
+
+    return result;
+  }
+}
@@ -2,12 +2,9 @@ import mammoth from 'mammoth';
 import { BaseConverter } from './BaseConverter';
 import { ConversionInput, DocsOptions } from '../types';
 import { createError } from '../utils/errors';
-import { BrowserSetup } from '../utils/browserSetup';
-import { Browser, Page } from 'playwright-core';
+import { BrowserPool } from '../utils/browserPool';
 
 export class DocsConverter extends BaseConverter<DocsOptions> {
-  private browser: Browser | null = null;
-
   constructor() {
     super('DocsConverter', 25 * 1024 * 1024, ['.docx', '.doc']);
   }
@@ -18,10 +15,7 @@ export class DocsConverter extends BaseConverter<DocsOptions> {
   }
 
   override async cleanup(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-    }
+    // Pages are returned to the shared browser pool after each conversion
     this.logger.info('DocsConverter cleanup completed');
   }
 
@@ -30,64 +24,50 @@ export class DocsConverter extends BaseConverter<DocsOptions> {
       throw createError.missingFile('DOCX file is required');
     }
 
-    let page: Page | null = null;
-
     try {
       const options = input.options || {};
 
-      // Launch browser if not already launched
-      if (!this.browser) {
-        const browserResult = await BrowserSetup.createOptimizedBrowser({
-          headless: true,
-          timeout: 30000,
-          useSystemChrome: true,
-        });
-        this.browser = browserResult.browser;
-      }
-
-      // Create a new page
-      page = await this.browser.newPage();
-
-      // Set viewport for proper rendering
-      await page.setViewportSize({
-        width: 794, // A4 width in pixels at 96 DPI
-        height: 1123, // A4 height in pixels at 96 DPI
-      });
-
       // Convert DOCX to HTML using mammoth
       const html = await this.docxToHtml(input.file.data, options);
 
       // Enhance HTML with Korean font support and proper styling
       const enhancedHtml = this.enhanceHtmlWithStyling(html, options);
 
-      // Set content and wait for fonts to load
-      await page.setContent(enhancedHtml, {
-        waitUntil: 'networkidle',
-        timeout: 30000,
-      });
+      // Render on a page of the shared browser
+      return await BrowserPool.getInstance().withPage(async page => {
+        // Set viewport for proper rendering
+        await page.setViewportSize({
+          width: 794, // A4 width in pixels at 96 DPI
+          height: 1123, // A4 height in pixels at 96 DPI
+        });
 
-      // Wait for fonts to load
-      await page.evaluate(() => {
-        return document.fonts.ready;
-      });
+        // Set content and wait for fonts to load
+        await page.setContent(enhancedHtml, {
+          waitUntil: 'networkidle',
+          timeout: 30000,
+        });
 
-      // Additional wait for web fonts
-      await page.waitForTimeout(1000);
+        // Wait for fonts to load
+        await page.evaluate(() => {
+          return document.fonts.ready;
+        });
 
-      // Generate PDF with options
-      const pdfBuffer = await page.pdf({
-        format: options.format || 'A4',
-        landscape: options.landscape || false,
-        printBackground: true,
-        margin: {
-          top: '20mm',
-          bottom: '20mm',
-          left: '20mm',
-          right: '20mm',
-        },
-      });
+        // Additional wait for web fonts
+        await page.waitForTimeout(1000);
 
-      return pdfBuffer;
+        // Generate PDF with options
+        return page.pdf({
+          format: options.format || 'A4',
+          landscape: options.landscape || false,
+          printBackground: true,
+          margin: {
+            top: '20mm',
+            bottom: '20mm',
+            left: '20mm',
+            right: '20mm',
+          },
+        });
+      });
     } catch (error) {
       this.logger.error('DOCX conversion failed:', error);
 
@@ -95,11 +75,6 @@ export class DocsConverter extends BaseConverter<DocsOptions> {
         throw createError.conversionFailed(error.message);
       }
       throw createError.conversionFailed('Failed to convert DOCX to PDF');
-    } finally {
-      // Close the page
-      if (page) {
-        await page.close();
-      }
     }
   }
 
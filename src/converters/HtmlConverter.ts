@@ -1,12 +1,10 @@
 import { BaseConverter } from './BaseConverter';
 import { ConversionInput, HtmlOptions } from '../types';
 import { createError } from '../utils/errors';
-import { BrowserSetup } from '../utils/browserSetup';
-import { Browser, Page } from 'playwright-core';
+import { BrowserPool } from '../utils/browserPool';
+import { Page } from 'playwright-core';
 
 export class HtmlConverter extends BaseConverter<HtmlOptions> {
-  private browser: Browser | null = null;
-
   constructor() {
     super('HtmlConverter', 50 * 1024 * 1024, ['.html', '.htm']);
   }
@@ -17,50 +15,33 @@ export class HtmlConverter extends BaseConverter<HtmlOptions> {
   }
 
   override async cleanup(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-    }
+    // Pages are returned to the shared browser pool after each conversion
     this.logger.info('HtmlConverter cleanup completed');
   }
 
   async convert(input: ConversionInput<HtmlOptions>): Promise<Buffer> {
-    let page: Page | null = null;
-
     try {
       const options = input.options || {};
 
-      // Launch browser if not already launched
-      if (!this.browser) {
-        const browserResult = await BrowserSetup.createOptimizedBrowser({
-          headless: true,
-          timeout: 30000,
-          useSystemChrome: true,
-        });
-        this.browser = browserResult.browser;
-      }
-
-      // Create a new page
-      page = await this.browser.newPage();
-
-      // Set viewport if specified
-      if (options.format) {
-        const viewport = this.getViewportSize(options.format);
-        await page.setViewportSize(viewport);
-      }
-
-      // Load content or URL
-      if (input.url) {
-        await this.loadUrl(page, input.url, options);
-      } else {
-        const htmlContent = this.getContent(input);
-        await this.loadHtml(page, htmlContent, options);
-      }
+      // Render on a page of the shared browser
+      return await BrowserPool.getInstance().withPage(async page => {
+        // Set viewport if specified
+        if (options.format) {
+          const viewport = this.getViewportSize(options.format);
+          await page.setViewportSize(viewport);
+        }
 
-      // Generate PDF with options
-      const pdfBuffer = await this.generatePdf(page, options);
+        // Load content or URL
+        if (input.url) {
+          await this.loadUrl(page, input.url, options);
+        } else {
+          const htmlContent = this.getContent(input);
+          await this.loadHtml(page, htmlContent, options);
+        }
 
-      return pdfBuffer;
+        // Generate PDF with options
+        return this.generatePdf(page, options);
+      });
     } catch (error) {
       this.logger.error('HTML conversion failed:', error);
 
@@ -68,11 +49,6 @@ export class HtmlConverter extends BaseConverter<HtmlOptions> {
         throw createError.conversionFailed(error.message);
       }
       throw createError.conversionFailed('Failed to convert HTML to PDF');
-    } finally {
-      // Close the page
-      if (page) {
-        await page.close();
-      }
     }
   }
 
@@ -3,6 +3,7 @@ import sharp from 'sharp';
 import { BaseConverter } from './BaseConverter';
 import { ConversionInput, ImageOptions } from '../types';
 import { createError } from '../utils/errors';
+import { getEmbeddableFontPath } from '../utils/fonts';
 
 export class ImageConverter extends BaseConverter<ImageOptions> {
   constructor() {
@@ -37,8 +38,6 @@ export class ImageConverter extends BaseConverter<ImageOptions> {
           layout: options.landscape ? 'landscape' : 'portrait',
           autoFirstPage: false,
           info: {
-            Title: 'Images to PDF',
-            Author: 'PDF Converter API',
             Creator: 'dante-pdf',
           },
         });
@@ -49,6 +48,11 @@ export class ImageConverter extends BaseConverter<ImageOptions> {
         doc.on('end', () => resolve(Buffer.concat(chunks)));
         doc.on('error', reject);
 
+        // PDF/A only allows embedded fonts, the built-in ones never are
+        if (options.pdfa) {
+          doc.font(getEmbeddableFontPath());
+        }
+
         // Process images
         const imagesPerPage = options.imagesPerPage || 1;
         let imageCount = 0;
@@ -2,12 +2,10 @@ import { marked } from 'marked';
 import { BaseConverter } from './BaseConverter';
 import { ConversionInput, MarkdownOptions } from '../types';
 import { createError } from '../utils/errors';
-import { BrowserSetup } from '../utils/browserSetup';
-import { Browser, Page } from 'playwright-core';
+import { BrowserPool } from '../utils/browserPool';
+import { Page } from 'playwright-core';
 
 export class MarkdownConverter extends BaseConverter<MarkdownOptions> {
-  private browser: Browser | null = null;
-
   constructor() {
     super('MarkdownConverter', 10 * 1024 * 1024, ['.md', '.markdown']);
   }
@@ -18,16 +16,11 @@ export class MarkdownConverter extends BaseConverter<MarkdownOptions> {
   }
 
   override async cleanup(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-    }
+    // Pages are returned to the shared browser pool after each conversion
     this.logger.info('MarkdownConverter cleanup completed');
   }
 
   async convert(input: ConversionInput<MarkdownOptions>): Promise<Buffer> {
-    let page: Page | null = null;
-
     try {
       const options = input.options || {};
 
@@ -47,35 +40,23 @@ export class MarkdownConverter extends BaseConverter<MarkdownOptions> {
       // Create styled HTML document
       const styledHtml = this.createStyledHtml(htmlContent, options);
 
-      // Launch browser if not already launched
-      if (!this.browser) {
-        const browserResult = await BrowserSetup.createOptimizedBrowser({
-          headless: true,
+      // Render on a page of the shared browser
+      return await BrowserPool.getInstance().withPage(async page => {
+        // Set viewport if specified
+        if (options.format) {
+          const viewport = this.getViewportSize(options.format);
+          await page.setViewportSize(viewport);
+        }
+
+        // Load the styled HTML
+        await page.setContent(styledHtml, {
+          waitUntil: 'networkidle',
           timeout: 30000,
-          useSystemChrome: true,
         });
-        this.browser = browserResult.browser;
-      }
-
-      // Create a new page
-      page = await this.browser.newPage();
 
-      // Set viewport if specified
-      if (options.format) {
-        const viewport = this.getViewportSize(options.format);
-        await page.setViewportSize(viewport);
-      }
-
-      // Load the styled HTML
-      await page.setContent(styledHtml, {
-        waitUntil: 'networkidle',
-        timeout: 30000,
+        // Generate PDF with options
+        return this.generatePdf(page, options);
       });
-
-      // Generate PDF with options
-      const pdfBuffer = await this.generatePdf(page, options);
-
-      return pdfBuffer;
     } catch (error) {
       this.logger.error('Markdown conversion failed:', error);
 
@@ -83,11 +64,6 @@ export class MarkdownConverter extends BaseConverter<MarkdownOptions> {
         throw createError.conversionFailed(error.message);
       }
       throw createError.conversionFailed('Unknown error during markdown conversion');
-    } finally {
-      // Close the page
-      if (page) {
-        await page.close();
-      }
     }
   }
 
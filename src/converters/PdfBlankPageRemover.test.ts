@@ -0,0 +1,58 @@
+import { PDFDocument } from 'pdf-lib';
+import { PdfBlankPageRemover } from './PdfBlankPageRemover';
+import { BlankPage } from '../types';
+import { findBlankPages } from '../utils/blankPages';
+
+// Rendering needs a browser, the detection itself is mocked
+jest.mock('../utils/blankPages');
+
+const mockFindBlankPages = findBlankPages as jest.MockedFunction<typeof findBlankPages>;
+
+// Page n of the test document is 100 + n points wide, so pages can be told apart
+async function createPdf(pageCount: number): Promise<Buffer> {
+  const document = await PDFDocument.create();
+  for (let number = 1; number <= pageCount; number++) {
+    document.addPage([100 + number, 200]);
+  }
+  return Buffer.from(await document.save());
+}
+
+function blank(...pages: number[]): BlankPage[] {
+  return pages.map(page => ({ page, coverage: 0, reason: 'No ink on the page' }));
+}
+
+describe('PdfBlankPageRemover', () => {
+  const file = async (): Promise<{ data: Buffer; fileName: string; mimeType: string }> => ({
+    data: await createPdf(5),
+    fileName: 'scan.pdf',
+    mimeType: 'application/pdf',
+  });
+
+  afterEach(() => mockFindBlankPages.mockReset());
+
+  it('removes the blank pages and reports the kept ones', async () => {
+    mockFindBlankPages.mockResolvedValue(blank(2, 5));
+
+    const result = await new PdfBlankPageRemover().execute({
+      file: await file(),
+      options: { threshold: 0.5 },
+    });
+
+    const widths = (await PDFDocument.load(result.pdf)).getPages().map(page => page.getWidth());
+    expect(widths).toEqual([101, 103, 104]);
+    expect(result.pages).toEqual([1, 3, 4]);
+    expect(result.removed).toEqual(blank(2, 5));
+    expect(mockFindBlankPages).toHaveBeenCalledWith(expect.any(Buffer), {
+      threshold: 0.5,
+      password: undefined,
+    });
+  });
+
+  it('refuses to remove every page', async () => {
+    mockFindBlankPages.mockResolvedValue(blank(1, 2, 3, 4, 5));
+
+    await expect(new PdfBlankPageRemover().execute({ file: await file() })).rejects.toThrow(
+      /Every page of the PDF is blank/
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { BasePdfOperation } from './BasePdfOperation';
+import { ConversionInput, RemoveBlankPagesOptions, RemoveBlankPagesResult } from '../types';
+import { findBlankPages } from '../utils/blankPages';
+import { createError } from '../utils/errors';
+
+export class PdfBlankPageRemover extends BasePdfOperation<
+  RemoveBlankPagesOptions,
+  RemoveBlankPagesResult
+> {
+  constructor() {
+    super('PdfBlankPageRemover');
+  }
+
+  protected async run(
+    input: ConversionInput<RemoveBlankPagesOptions>
+  ): Promise<RemoveBlankPagesResult> {
+    const options = input.options || {};
+    const document = await this.loadPdf(input.file!.data, options.password);
+    const totalPages = document.getPageCount();
+
+    const removed = await findBlankPages(input.file!.data, {
+      threshold: options.threshold,
+      password: options.password,
+    });
+    if (removed.length === totalPages) {
+      throw createError.invalidInput('Every page of the PDF is blank');
+    }
+
+    const blank = new Set(removed.map(({ page }) => page));
+    for (let number = totalPages; number >= 1; number--) {
+      if (blank.has(number)) {
+        document.removePage(number - 1);
+      }
+    }
+
+    this.logger.info(`Removed ${removed.length} blank page(s) of ${totalPages}`, {
+      threshold: options.threshold,
+    });
+
+    return {
+      pdf: await this.finishPdf(
+        Buffer.from(await document.save({ updateFieldAppearances: false })),
+        options
+      ),
+      pages: Array.from({ length: totalPages }, (_, i) => i + 1).filter(
+        number => !blank.has(number)
+      ),
+      removed,
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import { PDFDocument } from 'pdf-lib';
+import { BaseConverter } from './BaseConverter';
+import { CombineOptions, ConversionInput } from '../types';
+import { createError } from '../utils/errors';
+import { OutlineEntry, writeOutline } from '../utils/outline';
+import { loadPdfDocument } from '../utils/pdfSecurity';
+
+/**
+ * Joins the PDFs rendered from several input items into one document
+ */
+export class PdfCombiner extends BaseConverter<CombineOptions> {
+  constructor() {
+    super('PdfCombiner', 50 * 1024 * 1024, ['.pdf']);
+  }
+
+  async convert(input: ConversionInput<CombineOptions>): Promise<Buffer> {
+    if (!input.files || input.files.length === 0) {
+      throw createError.missingFile('No PDFs provided to combine');
+    }
+
+    const options = input.options || {};
+    const combined = await PDFDocument.create();
+    const bookmarks: OutlineEntry[] = [];
+
+    for (const [index, file] of input.files.entries()) {
+      const source = await loadPdfDocument(file.data);
+      const firstPage = source.getPages()[0];
+      if (!firstPage) {
+        this.logger.warn(`${file.fileName} has no pages, skipping`);
+        continue;
+      }
+
+      if (options.separator === 'blankPage' && combined.getPageCount() > 0) {
+        // Match the size of the page that follows
+        const { width, height } = firstPage.getSize();
+        combined.addPage([width, height]);
+      }
+
+      bookmarks.push({
+        title: options.titles?.[index] || file.fileName.replace(/\.pdf$/i, ''),
+        pageIndex: combined.getPageCount(),
+        children: [],
+      });
+
+      const pages = await combined.copyPages(source, source.getPageIndices());
+      pages.forEach(page => combined.addPage(page));
+    }
+
+    if (combined.getPageCount() === 0) {
+      throw createError.conversionFailed('No pages to combine');
+    }
+
+    if (options.bookmarks) {
+      writeOutline(combined, bookmarks);
+    }
+
+    this.logger.info(`Combined ${input.files.length} item(s)`, {
+      pages: combined.getPageCount(),
+    });
+
+    return Buffer.from(await combined.save());
+  }
+}
@@ -0,0 +1,19 @@
+import { BaseConverter } from './BaseConverter';
+import { ConversionInput, DecryptOptions } from '../types';
+import { createError } from '../utils/errors';
+import { decryptPdf } from '../utils/pdfSecurity';
+
+export class PdfDecryptor extends BaseConverter<DecryptOptions> {
+  constructor() {
+    super('PdfDecryptor', 50 * 1024 * 1024, ['.pdf']);
+  }
+
+  async convert(input: ConversionInput<DecryptOptions>): Promise<Buffer> {
+    if (!input.file) {
+      throw createError.missingFile('PDF file is required');
+    }
+
+    const options = input.options || {};
+    return decryptPdf(input.file.data, options.password);
+  }
+}
@@ -0,0 +1,34 @@
+import { BaseConverter } from './BaseConverter';
+import { ConversionInput, FlattenPdfOptions } from '../types';
+import { createError } from '../utils/errors';
+import { flattenDocument } from '../utils/flatten';
+import { loadPdfDocument } from '../utils/pdfSecurity';
+
+export class PdfFlattener extends BaseConverter<FlattenPdfOptions> {
+  constructor() {
+    super('PdfFlattener', 50 * 1024 * 1024, ['.pdf']);
+  }
+
+  async convert(input: ConversionInput<FlattenPdfOptions>): Promise<Buffer> {
+    if (!input.file) {
+      throw createError.missingFile('PDF file is required');
+    }
+
+    const options = input.options || {};
+    if (options.forms === false && options.annotations === false) {
+      throw createError.invalidInput('Select form fields, annotations or both to flatten');
+    }
+
+    const document = await loadPdfDocument(input.file.data, options.password);
+    const report = flattenDocument(document, {
+      forms: options.forms !== false,
+      annotations: options.annotations !== false,
+    });
+
+    this.logger.info(
+      `Flattened ${report.fields} form field(s) and ${report.annotations} annotation(s)`
+    );
+
+    return Buffer.from(await document.save({ updateFieldAppearances: false }));
+  }
+}
@@ -0,0 +1,49 @@
+import { BaseConverter } from './BaseConverter';
+import { ConversionInput, ConversionResult, FillFormOptions, FillFormReport } from '../types';
+import { createError } from '../utils/errors';
+import { fillFormFields, saveFilledForm } from '../utils/forms';
+import { loadPdfDocument } from '../utils/pdfSecurity';
+
+export class PdfFormFiller extends BaseConverter<FillFormOptions> {
+  private report: FillFormReport = { filled: [], ignored: [] };
+
+  constructor() {
+    super('PdfFormFiller', 50 * 1024 * 1024, ['.pdf']);
+  }
+
+  /**
+   * Fill the form and report which fields were set and which names were skipped
+   */
+  public override async execute(
+    input: ConversionInput<FillFormOptions>
+  ): Promise<ConversionResult> {
+    this.report = { filled: [], ignored: [] };
+    const result = await super.execute(input);
+    result.metadata.form = this.report;
+    return result;
+  }
+
+  async convert(input: ConversionInput<FillFormOptions>): Promise<Buffer> {
+    if (!input.file) {
+      throw createError.missingFile('PDF file is required');
+    }
+
+    const options = input.options || {};
+    const document = await loadPdfDocument(input.file.data, options.password);
+
+    if (document.getForm().getFields().length === 0) {
+      throw createError.invalidInput('The PDF has no form fields');
+    }
+
+    this.report = fillFormFields(document, options.values || {}, {
+      ignoreUnknownFields: !!options.ignoreUnknownFields,
+    });
+
+    this.logger.info(`Filled ${this.report.filled.length} form field(s)`, {
+      ignored: this.report.ignored.length,
+      flatten: !!options.flatten,
+    });
+
+    return saveFilledForm(document, !!options.flatten);
+  }
+}
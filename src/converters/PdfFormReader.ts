@@ -0,0 +1,19 @@
+import { BasePdfOperation } from './BasePdfOperation';
+import { ConversionInput, FormFieldInfo, ListFormFieldsOptions } from '../types';
+import { readFormFields } from '../utils/forms';
+
+export class PdfFormReader extends BasePdfOperation<ListFormFieldsOptions, FormFieldInfo[]> {
+  constructor() {
+    super('PdfFormReader');
+  }
+
+  protected async run(input: ConversionInput<ListFormFieldsOptions>): Promise<FormFieldInfo[]> {
+    const options = input.options || {};
+    const document = await this.loadPdf(input.file!.data, options.password);
+
+    const fields = readFormFields(document);
+    this.logger.info(`Found ${fields.length} form field(s)`);
+
+    return fields;
+  }
+}
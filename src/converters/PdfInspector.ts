@@ -0,0 +1,180 @@
+import { PDFDict, PDFDocument, PDFName, PDFNumber, PDFRawStream } from 'pdf-lib';
+import { BasePdfOperation } from './BasePdfOperation';
+import {
+  ConversionInput,
+  ErrorCode,
+  InspectOptions,
+  PdfAttachmentInfo,
+  PdfDocumentInfo,
+  PdfInspection,
+} from '../types';
+import { isConversionError } from '../utils/errors';
+import { decodeText, readNameTree } from '../utils/outline';
+import { describeEncryption } from '../utils/pdfSecurity';
+
+export class PdfInspector extends BasePdfOperation<InspectOptions, PdfInspection> {
+  constructor() {
+    super('PdfInspector');
+  }
+
+  protected async run(input: ConversionInput<InspectOptions>): Promise<PdfInspection> {
+    const options = input.options || {};
+    const data = input.file!.data;
+
+    const raw = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+    const encryption = describeEncryption(raw);
+
+    // The page tree is readable without the password, strings are not
+    let document = raw;
+    if (raw.isEncrypted) {
+      try {
+        document = await this.loadPdf(data, options.password);
+        encryption.requiresPassword = false;
+      } catch (error) {
+        if (!isConversionError(error) || error.code !== ErrorCode.UNAUTHORIZED) {
+          throw error;
+        }
+        encryption.requiresPassword = true;
+      }
+    }
+
+    const readable = !document.isEncrypted;
+    const pages = document.getPages().map((page, index) => {
+      const { width, height } = page.getSize();
+      return {
+        number: index + 1,
+        width: round(width),
+        height: round(height),
+        rotation: ((page.getRotation().angle % 360) + 360) % 360,
+      };
+    });
+
+    return {
+      version: this.readVersion(data, document),
+      pageCount: pages.length,
+      pages,
+      info: readable ? this.readInfo(document) : {},
+      encryption,
+      forms: this.readForms(document),
+      attachments: readable ? this.readAttachments(document) : [],
+    };
+  }
+
+  private readVersion(data: Buffer, document: PDFDocument): string {
+    const header = data
+      .subarray(0, 1024)
+      .toString('latin1')
+      .match(/%PDF-(\d+\.\d+)/);
+    const headerVersion = header?.[1] || 'unknown';
+
+    // The catalog may raise the version of the header (PDF 1.4+)
+    const catalogVersion = document.catalog.lookupMaybe(PDFName.of('Version'), PDFName);
+    if (catalogVersion) {
+      const version = catalogVersion.decodeText();
+      if (headerVersion === 'unknown' || parseFloat(version) > parseFloat(headerVersion)) {
+        return version;
+      }
+    }
+
+    return headerVersion;
+  }
+
+  private readInfo(document: PDFDocument): PdfDocumentInfo {
+    const info: PdfDocumentInfo = {};
+    const read = (key: keyof PdfDocumentInfo, getter: () => string | Date | undefined): void => {
+      try {
+        const value = getter();
+        if (value instanceof Date) {
+          if (!isNaN(value.getTime())) {
+            info[key] = value.toISOString();
+          }
+        } else if (value) {
+          info[key] = value;
+        }
+      } catch {
+        // Malformed entries (e.g. invalid dates) are left out
+      }
+    };
+
+    read('title', () => document.getTitle());
+    read('author', () => document.getAuthor());
+    read('subject', () => document.getSubject());
+    read('keywords', () => document.getKeywords());
+    read('creator', () => document.getCreator());
+    read('producer', () => document.getProducer());
+    read('creationDate', () => document.getCreationDate());
+    read('modificationDate', () => document.getModificationDate());
+
+    return info;
+  }
+
+  private readForms(document: PDFDocument): PdfInspection['forms'] {
+    const acroForm = document.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+    if (!acroForm) {
+      return { hasForm: false, fieldCount: 0, hasXfa: false };
+    }
+
+    let fieldCount = 0;
+    try {
+      fieldCount = document.getForm().getFields().length;
+    } catch (error) {
+      this.logger.warn('Could not read form fields', { error: (error as Error).message });
+    }
+
+    const hasXfa = acroForm.has(PDFName.of('XFA'));
+    return { hasForm: fieldCount > 0 || hasXfa, fieldCount, hasXfa };
+  }
+
+  private readAttachments(document: PDFDocument): PdfAttachmentInfo[] {
+    const embeddedFiles = document.catalog
+      .lookupMaybe(PDFName.of('Names'), PDFDict)
+      ?.lookupMaybe(PDFName.of('EmbeddedFiles'), PDFDict);
+    if (!embeddedFiles) {
+      return [];
+    }
+
+    const attachments: PdfAttachmentInfo[] = [];
+    for (const [name, value] of readNameTree(embeddedFiles)) {
+      const fileSpec = document.context.lookup(value);
+      if (!(fileSpec instanceof PDFDict)) {
+        continue;
+      }
+
+      const attachment: PdfAttachmentInfo = {
+        name,
+        fileName:
+          decodeText(fileSpec.lookup(PDFName.of('UF'))) ||
+          decodeText(fileSpec.lookup(PDFName.of('F'))) ||
+          name,
+      };
+
+      const description = decodeText(fileSpec.lookup(PDFName.of('Desc')));
+      if (description) {
+        attachment.description = description;
+      }
+
+      const stream = fileSpec.lookupMaybe(PDFName.of('EF'), PDFDict)?.lookup(PDFName.of('F'));
+      if (stream instanceof PDFRawStream) {
+        const mimeType = stream.dict.lookupMaybe(PDFName.of('Subtype'), PDFName);
+        if (mimeType) {
+          attachment.mimeType = mimeType.decodeText();
+        }
+
+        const size = stream.dict
+          .lookupMaybe(PDFName.of('Params'), PDFDict)
+          ?.lookupMaybe(PDFName.of('Size'), PDFNumber);
+        if (size) {
+          attachment.size = size.asNumber();
+        }
+      }
+
+      attachments.push(attachment);
+    }
+
+    return attachments;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
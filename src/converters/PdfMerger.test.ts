@@ -0,0 +1,194 @@
+import { PDFDocument } from 'pdf-lib';
+import { PdfMerger } from './PdfMerger';
+import { MergeOptions } from '../types';
+import { findBlankPages } from '../utils/blankPages';
+import { OutlineEntry, readOutline, writeOutline } from '../utils/outline';
+
+// Rendering needs a browser, the blank page detection is mocked
+jest.mock('../utils/blankPages');
+
+const mockFindBlankPages = findBlankPages as jest.MockedFunction<typeof findBlankPages>;
+
+// Page n is baseWidth + n points wide, so pages of the merged document can be told apart
+async function createPdf(
+  pageCount: number,
+  outline: OutlineEntry[] = [],
+  baseWidth: number = 100
+): Promise<Buffer> {
+  const document = await PDFDocument.create();
+  for (let number = 1; number <= pageCount; number++) {
+    document.addPage([baseWidth + number, 200]);
+  }
+  if (outline.length > 0) {
+    writeOutline(document, outline);
+  }
+  return Buffer.from(await document.save());
+}
+
+async function merge(
+  files: Array<{ fileName: string; data: Buffer }>,
+  options: MergeOptions
+): Promise<PDFDocument> {
+  const result = await new PdfMerger().execute({
+    files: files.map(file => ({ ...file, mimeType: 'application/pdf' })),
+    options,
+  });
+  return PDFDocument.load(result.pdf);
+}
+
+describe('PdfMerger bookmarks', () => {
+  const report = (): Promise<Buffer> =>
+    createPdf(3, [
+      {
+        title: 'Summary',
+        pageIndex: 0,
+        children: [{ title: 'Figures', pageIndex: 1, children: [] }],
+      },
+      { title: 'Appendix', pageIndex: 2, children: [] },
+    ]);
+
+  it('adds a bookmark for the first page of every file', async () => {
+    const merged = await merge(
+      [
+        { fileName: 'report.pdf', data: await report() },
+        { fileName: 'letter.pdf', data: await createPdf(2) },
+      ],
+      { bookmarks: true, titles: ['', 'Cover letter'] }
+    );
+
+    expect(readOutline(merged)).toEqual([
+      { title: 'report', pageIndex: 0, children: [] },
+      { title: 'Cover letter', pageIndex: 3, children: [] },
+    ]);
+  });
+
+  it('nests the bookmarks of a file under its own bookmark at their merged pages', async () => {
+    const merged = await merge(
+      [
+        { fileName: 'report.pdf', data: await report() },
+        { fileName: 'letter.pdf', data: await createPdf(2) },
+      ],
+      { bookmarks: true, keepSourceBookmarks: true, order: [1, 0] }
+    );
+
+    expect(readOutline(merged)).toEqual([
+      { title: 'letter', pageIndex: 0, children: [] },
+      {
+        title: 'report',
+        pageIndex: 2,
+        children: [
+          {
+            title: 'Summary',
+            pageIndex: 2,
+            children: [{ title: 'Figures', pageIndex: 3, children: [] }],
+          },
+          { title: 'Appendix', pageIndex: 4, children: [] },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps source bookmarks at the top level and drops the target of left out pages', async () => {
+    const merged = await merge(
+      [
+        { fileName: 'report.pdf', data: await report() },
+        { fileName: 'letter.pdf', data: await createPdf(2) },
+      ],
+      { keepSourceBookmarks: true, pageRanges: { 'report.pdf': '2-3' } }
+    );
+
+    expect(readOutline(merged)).toEqual([
+      {
+        title: 'Summary',
+        pageIndex: null,
+        children: [{ title: 'Figures', pageIndex: 0, children: [] }],
+      },
+      { title: 'Appendix', pageIndex: 1, children: [] },
+    ]);
+  });
+});
+
+describe('PdfMerger interleave', () => {
+  // Fronts are labelled F<n>, backs B<n> by their page number in their own scan
+  async function interleave(
+    options: MergeOptions,
+    frontPages = 3,
+    backPages = 3
+  ): Promise<string[]> {
+    const merged = await merge(
+      [
+        { fileName: 'fronts.pdf', data: await createPdf(frontPages, [], 100) },
+        { fileName: 'backs.pdf', data: await createPdf(backPages, [], 200) },
+      ],
+      { mode: 'interleave', ...options }
+    );
+    return merged
+      .getPages()
+      .map(page => page.getWidth())
+      .map(width => (width > 200 ? `B${width - 200}` : `F${width - 100}`));
+  }
+
+  afterEach(() => mockFindBlankPages.mockReset());
+
+  it('pairs every front side with its back side', async () => {
+    expect(await interleave({})).toEqual(['F1', 'B1', 'F2', 'B2', 'F3', 'B3']);
+  });
+
+  it('reverses the back sides of a flipped stack', async () => {
+    expect(await interleave({ reverseBackPages: true })).toEqual([
+      'F1',
+      'B3',
+      'F2',
+      'B2',
+      'F3',
+      'B1',
+    ]);
+  });
+
+  it('leaves out blank back sides without shifting the pairs', async () => {
+    mockFindBlankPages.mockImplementation(async data =>
+      (await PDFDocument.load(data)).getPage(0).getWidth() > 200
+        ? [{ page: 2, coverage: 0, reason: 'No ink on the page' }]
+        : []
+    );
+
+    expect(await interleave({ reverseBackPages: true, removeBlankPages: true })).toEqual([
+      'F1',
+      'B3',
+      'F2',
+      'F3',
+      'B1',
+    ]);
+  });
+
+  it('needs two files with the same number of pages', async () => {
+    await expect(interleave({}, 3, 2)).rejects.toThrow(
+      /fronts\.pdf has 3 front side\(s\) but backs\.pdf has 2 back side\(s\)/
+    );
+
+    const page = { fileName: 'page.pdf', data: await createPdf(1) };
+    await expect(merge([page, page, page], { mode: 'interleave' })).rejects.toThrow(
+      /Interleaving needs exactly 2 PDFs/
+    );
+  });
+});
+
+describe('PdfMerger PDF/A output', () => {
+  it('returns a file that fails the check with the report instead of failing', async () => {
+    const document = await PDFDocument.create();
+    document.addPage([300, 200]).drawText('Not embedded', { x: 20, y: 100 });
+    const withStandardFont = Buffer.from(await document.save());
+
+    const result = await new PdfMerger().execute({
+      files: [
+        { fileName: 'letter.pdf', data: withStandardFont, mimeType: 'application/pdf' },
+        { fileName: 'blank.pdf', data: await createPdf(1), mimeType: 'application/pdf' },
+      ],
+      options: { pdfa: true },
+    });
+
+    expect(result.pdf.length).toBeGreaterThan(0);
+    expect(result.metadata.pdfa).toMatchObject({ conformance: 'PDF/A-2b', compliant: false });
+    expect(result.metadata.pdfa?.issues.join('\n')).toMatch(/Helvetica/);
+  });
+});
@@ -1,22 +1,58 @@
-import { PDFDocument } from 'pdf-lib';
+import { PDFDocument, PDFPage } from 'pdf-lib';
 import { BaseConverter } from './BaseConverter';
-import { ConversionInput, MergeOptions } from '../types';
-import { createError } from '../utils/errors';
+import {
+  BlankPage,
+  ConversionInput,
+  ConversionResult,
+  MergeOptions,
+  PdfSecurityOptions,
+} from '../types';
+import { findBlankPages } from '../utils/blankPages';
+import { createError, isConversionError } from '../utils/errors';
+import { flattenDocument } from '../utils/flatten';
+import { OutlineEntry, readOutline, writeOutline } from '../utils/outline';
+import { parsePageRange } from '../utils/pageRanges';
+import { loadPdfDocument } from '../utils/pdfSecurity';
+
+interface MergeSource {
+  fileIndex: number;
+  fileName: string;
+  pdf: PDFDocument;
+  /** Zero-based pages taken from the file, in order */
+  pageIndices: number[];
+  /** Pages among them that are left out as blank */
+  blank: Set<number>;
+}
+
+interface PagePlacement {
+  source: MergeSource;
+  pageIndex: number;
+}
 
 export class PdfMerger extends BaseConverter<MergeOptions> {
+  private removedPages: BlankPage[] = [];
+
   constructor() {
     super('PdfMerger', 50 * 1024 * 1024, ['.pdf']);
   }
 
+  /**
+   * Merge and report the pages that were left out as blank
+   */
+  public override async execute(input: ConversionInput<MergeOptions>): Promise<ConversionResult> {
+    this.removedPages = [];
+    const result = await super.execute(input);
+    if (input.options?.removeBlankPages) {
+      result.metadata.removedPages = this.removedPages;
+    }
+    return result;
+  }
+
   async convert(input: ConversionInput<MergeOptions>): Promise<Buffer> {
     if (!input.files || input.files.length === 0) {
       throw createError.missingFile('No PDF files provided for merging');
     }
 
-    if (input.files.length < 2) {
-      throw createError.invalidInput('At least 2 PDF files are required for merging');
-    }
-
     try {
       const options = input.options || {};
 
@@ -25,6 +61,7 @@ export class PdfMerger extends BaseConverter<MergeOptions> {
 
       // Process files in specified order or default order
       const fileOrder = options.order || input.files.map((_, index) => index);
+      const sources: MergeSource[] = [];
 
       for (const fileIndex of fileOrder) {
         if (fileIndex >= input.files.length) {
@@ -41,39 +78,84 @@ export class PdfMerger extends BaseConverter<MergeOptions> {
         const fileName = file.fileName;
 
         try {
-          // Load the PDF
-          const pdfBytes = file.data;
-          const pdf = await PDFDocument.load(pdfBytes, {
-            ignoreEncryption: true,
-          });
+          // Load the PDF, decrypting it if it is password protected
+          const pdf = await loadPdfDocument(file.data, options.inputPassword);
 
-          // Determine which pages to copy
-          const pageIndices = this.getPageIndices(fileName, pdf.getPageCount(), options.pageRanges);
-
-          // Copy pages
-          const copiedPages = await mergedPdf.copyPages(pdf, pageIndices);
+          // Copied pages lose their form, so fields are drawn while the source still has it
+          if (options.flatten) {
+            flattenDocument(pdf);
+          }
 
-          // Add pages to merged document
-          for (const page of copiedPages) {
-            // Check if page is blank and should be removed
-            if (options.removeBlankPages && (await this.isBlankPage(page))) {
-              this.logger.info(`Skipping blank page from ${fileName}`);
-              continue;
+          // Determine which pages to copy and which of them are blank
+          const pageIndices = this.getPageIndices(fileName, pdf.getPageCount(), options.pageRanges);
+          const blank = new Set<number>();
+          if (options.removeBlankPages) {
+            const blankPages = await findBlankPages(file.data, {
+              threshold: options.blankPageThreshold,
+              password: options.inputPassword,
+              pages: pageIndices,
+            });
+
+            for (const blankPage of blankPages) {
+              this.logger.info(`Skipping blank page ${blankPage.page} from ${fileName}`);
+              this.removedPages.push({ fileName, ...blankPage });
+              blank.add(blankPage.page - 1);
             }
-
-            mergedPdf.addPage(page);
           }
+
+          sources.push({ fileIndex, fileName, pdf, pageIndices, blank });
         } catch (error) {
           this.logger.error(`Failed to process PDF ${fileName}:`, error);
-          throw createError.conversionFailed(`Failed to process ${fileName}`);
+          const reason = error instanceof Error ? `: ${error.message}` : '';
+          throw createError.conversionFailed(`Failed to process ${fileName}${reason}`);
         }
       }
 
+      // Blank pages are left out only now, so they don't shift the duplex pairs
+      const placements =
+        options.mode === 'interleave'
+          ? this.interleave(sources, options.reverseBackPages)
+          : sources.flatMap(source => source.pageIndices.map(pageIndex => ({ source, pageIndex })));
+
+      // Copy the pages of every file at once, then add them in merged order
+      const copies = new Map<MergeSource, Map<number, PDFPage>>();
+      for (const source of sources) {
+        const kept = source.pageIndices.filter(index => !source.blank.has(index));
+        const pages = await mergedPdf.copyPages(source.pdf, kept);
+        copies.set(source, new Map(kept.map((index, position) => [index, pages[position]!])));
+      }
+
+      // Where every kept source page ends up, for the bookmarks
+      const mergedIndices = new Map<MergeSource, Map<number, number>>(
+        sources.map(source => [source, new Map()])
+      );
+      for (const { source, pageIndex } of placements) {
+        const page = copies.get(source)!.get(pageIndex);
+        if (page) {
+          mergedIndices.get(source)!.set(pageIndex, mergedPdf.getPageCount());
+          mergedPdf.addPage(page);
+        }
+      }
+
+      const outline = sources.flatMap(source =>
+        this.getFileOutline(
+          source.pdf,
+          source.fileIndex,
+          source.fileName,
+          mergedIndices.get(source)!,
+          options
+        )
+      );
+
       // Check if we have any pages
       if (mergedPdf.getPageCount() === 0) {
         throw createError.conversionFailed('No pages to merge after processing');
       }
 
+      if (outline.length > 0) {
+        writeOutline(mergedPdf, outline);
+      }
+
       // Apply metadata removal if requested
       if (options.removeMetadata) {
         this.removeMetadata(mergedPdf);
@@ -91,18 +173,9 @@ export class PdfMerger extends BaseConverter<MergeOptions> {
         pdfBytes = await mergedPdf.save();
       }
 
-      // Apply password protection if requested
-      if (options.password) {
-        return this.applyPasswordProtection(
-          Buffer.from(pdfBytes),
-          options.password,
-          options.permissions
-        );
-      }
-
       return Buffer.from(pdfBytes);
     } catch (error) {
-      if (error instanceof Error && error.message.includes('Failed to')) {
+      if (isConversionError(error)) {
         throw error;
       }
       this.logger.error('PDF merge failed:', error);
@@ -110,6 +183,89 @@ export class PdfMerger extends BaseConverter<MergeOptions> {
     }
   }
 
+  /**
+   * Support the legacy password/permissions merge options
+   */
+  protected override getSecurityOptions(options?: MergeOptions): PdfSecurityOptions | undefined {
+    if (options?.security) {
+      return options.security;
+    }
+
+    if (options?.password) {
+      return {
+        userPassword: options.password,
+        ...(options.permissions && { permissions: options.permissions }),
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Pair the pages of a single-sided scan of the front sides with the scan of
+   * the back sides: front 1, back 1, front 2, back 2, ... A scanner that is fed
+   * the flipped stack reads the back sides last to first, so they can be reversed.
+   */
+  private interleave(sources: MergeSource[], reverseBackPages?: boolean): PagePlacement[] {
+    const [fronts, backs] = sources;
+    if (sources.length !== 2 || !fronts || !backs) {
+      throw createError.invalidInput(
+        `Interleaving needs exactly 2 PDFs, the front sides and the back sides. Got ${sources.length}.`
+      );
+    }
+
+    const frontPages = fronts.pageIndices;
+    const backPages = reverseBackPages ? [...backs.pageIndices].reverse() : backs.pageIndices;
+    if (frontPages.length !== backPages.length) {
+      throw createError.invalidInput(
+        `${fronts.fileName} has ${frontPages.length} front side(s) but ${backs.fileName} has ${backPages.length} back side(s)`
+      );
+    }
+
+    return frontPages.flatMap((pageIndex, position) => [
+      { source: fronts, pageIndex },
+      { source: backs, pageIndex: backPages[position]! },
+    ]);
+  }
+
+  /**
+   * Bookmarks of one file in the merged document: a bookmark for the file
+   * and/or the file's own bookmarks pointing at their merged pages
+   */
+  private getFileOutline(
+    pdf: PDFDocument,
+    fileIndex: number,
+    fileName: string,
+    mergedIndexBySource: Map<number, number>,
+    options: MergeOptions
+  ): OutlineEntry[] {
+    // Files that contributed no pages get no bookmarks
+    if (mergedIndexBySource.size === 0) {
+      return [];
+    }
+
+    const remap = (entries: OutlineEntry[]): OutlineEntry[] =>
+      entries.map(entry => ({
+        title: entry.title,
+        pageIndex:
+          entry.pageIndex !== null ? (mergedIndexBySource.get(entry.pageIndex) ?? null) : null,
+        children: remap(entry.children),
+      }));
+    const sourceOutline = options.keepSourceBookmarks ? remap(readOutline(pdf)) : [];
+
+    if (!options.bookmarks) {
+      return sourceOutline;
+    }
+
+    return [
+      {
+        title: options.titles?.[fileIndex] || fileName.replace(/\.[^.]+$/, ''),
+        pageIndex: Math.min(...mergedIndexBySource.values()),
+        children: sourceOutline,
+      },
+    ];
+  }
+
   private getPageIndices(
     fileName: string,
     totalPages: number,
@@ -120,58 +276,7 @@ export class PdfMerger extends BaseConverter<MergeOptions> {
       return Array.from({ length: totalPages }, (_, i) => i);
     }
 
-    const range = pageRanges[fileName];
-    const indices: number[] = [];
-
-    // Parse page range string (e.g., "1-3,5,7-9")
-    const parts = range.split(',');
-    for (const part of parts) {
-      const trimmed = part.trim();
-
-      if (trimmed.includes('-')) {
-        // Range (e.g., "1-3")
-        const parts = trimmed.split('-');
-        const start = parseInt(parts[0]?.trim() || '0');
-        const end = parseInt(parts[1]?.trim() || '0');
-        if (!isNaN(start) && !isNaN(end) && start > 0 && end > 0) {
-          for (let i = start - 1; i < Math.min(end, totalPages); i++) {
-            if (i >= 0 && i < totalPages) {
-              indices.push(i);
-            }
-          }
-        }
-      } else {
-        // Single page (e.g., "5")
-        const pageNum = parseInt(trimmed);
-        if (!isNaN(pageNum) && pageNum > 0 && pageNum <= totalPages) {
-          indices.push(pageNum - 1);
-        }
-      }
-    }
-
-    // Return unique indices in order
-    return [...new Set(indices)].sort((a, b) => a - b);
-  }
-
-  private async isBlankPage(page: any): Promise<boolean> {
-    // This is a simplified check
-    // A more sophisticated check would analyze the actual content
-    try {
-      // const { width, height } = page.getSize();
-      const content = page.node.Contents;
-
-      // If there's no content stream, consider it blank
-      if (!content) {
-        return true;
-      }
-
-      // You could add more sophisticated checks here
-      // For now, we'll consider very small content as potentially blank
-      const contentSize = content.toString().length;
-      return contentSize < 100; // Arbitrary threshold
-    } catch {
-      return false; // If we can't determine, assume it's not blank
-    }
+    return parsePageRange(pageRanges[fileName], totalPages);
   }
 
   private removeMetadata(pdf: PDFDocument): void {
@@ -188,28 +293,4 @@ export class PdfMerger extends BaseConverter<MergeOptions> {
       this.logger.warn('Failed to remove some metadata:', error);
     }
   }
-
-  private async applyPasswordProtection(
-    pdfBuffer: Buffer,
-    _password: string,
-    _permissions?: {
-      printing?: boolean;
-      modifying?: boolean;
-      copying?: boolean;
-    }
-  ): Promise<Buffer> {
-    // Note: pdf-lib doesn't support password protection directly
-    // You would need to use another library like qpdf or pdftk for this
-    // For now, we'll return the unprotected PDF with a warning
-
-    this.logger.warn('Password protection is not yet implemented in pdf-lib');
-    this.logger.warn('Consider using qpdf or pdftk for password protection');
-
-    // TODO: Implement password protection using qpdf or similar
-    // Example with qpdf (would need to be installed):
-    // const { exec } = require('child_process');
-    // exec(`qpdf --encrypt ${password} ${password} 256 -- input.pdf output.pdf`);
-
-    return pdfBuffer;
-  }
 }
@@ -0,0 +1,89 @@
+import { PDFDocument } from 'pdf-lib';
+import { PdfPageEditor } from './PdfPageEditor';
+import { PageEditInstruction } from '../types';
+
+// Page n of the test document is 100 + n points wide, so pages can be told apart
+async function createPdf(pageCount: number): Promise<Buffer> {
+  const document = await PDFDocument.create();
+  for (let number = 1; number <= pageCount; number++) {
+    document.addPage([100 + number, 200]);
+  }
+  return Buffer.from(await document.save());
+}
+
+async function edit(
+  instructions: PageEditInstruction[]
+): Promise<{ pages: number[]; widths: number[]; rotations: number[] }> {
+  const file = { data: await createPdf(5), fileName: 'scan.pdf', mimeType: 'application/pdf' };
+  const result = await new PdfPageEditor().execute({ file, options: { instructions } });
+
+  const pages = (await PDFDocument.load(result.pdf)).getPages();
+  return {
+    pages: result.pages,
+    widths: pages.map(page => page.getWidth() - 100),
+    rotations: pages.map(page => page.getRotation().angle),
+  };
+}
+
+describe('PdfPageEditor', () => {
+  it('rotates the selected pages and adds up repeated rotations', async () => {
+    const result = await edit([
+      { action: 'rotate', pages: '1,3', angle: 90 },
+      { action: 'rotate', pages: '3-4', angle: -90 },
+    ]);
+
+    expect(result.pages).toEqual([1, 2, 3, 4, 5]);
+    expect(result.rotations).toEqual([90, 0, 0, 270, 0]);
+  });
+
+  it('resolves every instruction against the original page numbers', async () => {
+    const result = await edit([
+      { action: 'delete', pages: '2-3' },
+      { action: 'move', pages: '5', position: 'before', targetPage: 1 },
+    ]);
+
+    expect(result.pages).toEqual([5, 1, 4]);
+    expect(result.widths).toEqual([5, 1, 4]);
+  });
+
+  it('places duplicates after the page and moves pages after the last copy', async () => {
+    const result = await edit([
+      { action: 'duplicate', pages: '2', copies: 2 },
+      { action: 'move', pages: '4', position: 'after', targetPage: 2 },
+    ]);
+
+    expect(result.pages).toEqual([1, 2, 2, 2, 4, 3, 5]);
+    expect(result.widths).toEqual([1, 2, 2, 2, 4, 3, 5]);
+  });
+
+  it('rotates every copy of a duplicated page on its own page object', async () => {
+    const result = await edit([
+      { action: 'duplicate', pages: '1' },
+      { action: 'rotate', pages: '1', angle: 180 },
+      { action: 'move', pages: '1', position: 'end' },
+    ]);
+
+    expect(result.pages).toEqual([2, 3, 4, 5, 1, 1]);
+    expect(result.rotations).toEqual([0, 0, 0, 0, 180, 180]);
+  });
+
+  it('names the instruction that cannot be applied', async () => {
+    await expect(
+      edit([
+        { action: 'delete', pages: '2' },
+        { action: 'rotate', pages: '2', angle: 90 },
+      ])
+    ).rejects.toThrow(/Instruction 2 \(rotate\): the selected pages were already deleted/);
+
+    await expect(edit([{ action: 'rotate', pages: '1', angle: 45 }])).rejects.toThrow(
+      /multiple of 90/
+    );
+    await expect(
+      edit([{ action: 'move', pages: '2-3', position: 'after', targetPage: 3 }])
+    ).rejects.toThrow(/target page is one of the moved pages/);
+  });
+
+  it('refuses to delete every page', async () => {
+    await expect(edit([{ action: 'delete', pages: '1-5' }])).rejects.toThrow(/every page/);
+  });
+});
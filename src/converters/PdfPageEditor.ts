@@ -0,0 +1,178 @@
+import { degrees, PDFName, PDFPage } from 'pdf-lib';
+import { BasePdfOperation } from './BasePdfOperation';
+import { ConversionInput, EditPagesOptions, EditPagesResult, PageEditInstruction } from '../types';
+import { createError } from '../utils/errors';
+import { parsePageRange } from '../utils/pageRanges';
+
+interface PagePlan {
+  /** Zero-based index of the page in the original document */
+  source: number;
+  /** Clockwise rotation added to the page, in degrees */
+  rotation: number;
+}
+
+export class PdfPageEditor extends BasePdfOperation<EditPagesOptions, EditPagesResult> {
+  constructor() {
+    super('PdfPageEditor');
+  }
+
+  protected async run(input: ConversionInput<EditPagesOptions>): Promise<EditPagesResult> {
+    const options = input.options || {};
+    const instructions = options.instructions || [];
+    if (instructions.length === 0) {
+      throw createError.invalidInput('Add at least one page instruction');
+    }
+
+    const document = await this.loadPdf(input.file!.data, options.password);
+    const totalPages = document.getPageCount();
+    if (totalPages === 0) {
+      throw createError.invalidInput('The PDF has no pages to edit');
+    }
+
+    let plan: PagePlan[] = Array.from({ length: totalPages }, (_, source) => ({
+      source,
+      rotation: 0,
+    }));
+    instructions.forEach((instruction, index) => {
+      try {
+        plan = this.applyInstruction(plan, instruction, totalPages);
+      } catch (error) {
+        throw createError.invalidInput(
+          `Instruction ${index + 1} (${instruction.action}): ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+
+    if (plan.length === 0) {
+      throw createError.invalidInput('The instructions delete every page');
+    }
+
+    // A page object can only be in the page tree once, so repeated pages are
+    // copied before anything is rotated
+    const originalPages = document.getPages();
+    const placed = new Set<number>();
+    const pages: PDFPage[] = [];
+    for (const { source } of plan) {
+      if (placed.has(source)) {
+        const [copy] = await document.copyPages(document, [source]);
+        pages.push(copy!);
+      } else {
+        placed.add(source);
+        pages.push(originalPages[source]!);
+      }
+    }
+
+    // Rebuild the page tree in the new order. Pages that are left out are no
+    // longer reachable and are dropped when saving.
+    for (let i = totalPages - 1; i >= 0; i--) {
+      document.removePage(i);
+    }
+    document.catalog.Pages().set(PDFName.of('Kids'), document.context.obj([]));
+
+    pages.forEach((page, index) => {
+      const rotation = plan[index]!.rotation;
+      if (rotation !== 0) {
+        const angle = (((page.getRotation().angle + rotation) % 360) + 360) % 360;
+        page.setRotation(degrees(angle));
+      }
+      document.addPage(page);
+    });
+
+    this.logger.info(`Edited ${totalPages} page(s) into ${pages.length}`, {
+      instructions: instructions.length,
+    });
+
+    return {
+      pdf: await this.finishPdf(
+        Buffer.from(await document.save({ updateFieldAppearances: false })),
+        options
+      ),
+      pages: plan.map(({ source }) => source + 1),
+    };
+  }
+
+  private applyInstruction(
+    plan: PagePlan[],
+    instruction: PageEditInstruction,
+    totalPages: number
+  ): PagePlan[] {
+    const selected = new Set(parsePageRange(instruction.pages || '', totalPages));
+    if (selected.size === 0) {
+      throw new Error(`"${instruction.pages || ''}" does not match any page`);
+    }
+    const isSelected = (entry: PagePlan): boolean => selected.has(entry.source);
+    if (!plan.some(isSelected)) {
+      throw new Error('the selected pages were already deleted');
+    }
+
+    switch (instruction.action) {
+      case 'rotate': {
+        const angle = instruction.angle ?? 90;
+        if (angle % 90 !== 0) {
+          throw new Error('the angle must be a multiple of 90');
+        }
+        return plan.map(entry =>
+          isSelected(entry) ? { ...entry, rotation: entry.rotation + angle } : entry
+        );
+      }
+
+      case 'delete':
+        return plan.filter(entry => !isSelected(entry));
+
+      case 'duplicate': {
+        const copies = Math.max(1, Math.floor(instruction.copies ?? 1));
+        return plan.flatMap(entry =>
+          isSelected(entry) ? Array.from({ length: copies + 1 }, () => ({ ...entry })) : [entry]
+        );
+      }
+
+      case 'move': {
+        const moved = plan.filter(isSelected);
+        const rest = plan.filter(entry => !isSelected(entry));
+        const index = this.findInsertIndex(rest, instruction, selected);
+        return [...rest.slice(0, index), ...moved, ...rest.slice(index)];
+      }
+
+      default:
+        throw new Error(`unknown action "${instruction.action}"`);
+    }
+  }
+
+  /**
+   * Where moved pages go in the remaining pages
+   */
+  private findInsertIndex(
+    rest: PagePlan[],
+    instruction: PageEditInstruction,
+    selected: Set<number>
+  ): number {
+    const position = instruction.position || 'start';
+    if (position === 'start') {
+      return 0;
+    }
+    if (position === 'end') {
+      return rest.length;
+    }
+
+    const target = (instruction.targetPage ?? 0) - 1;
+    if (selected.has(target)) {
+      throw new Error('the target page is one of the moved pages');
+    }
+    const first = rest.findIndex(entry => entry.source === target);
+    if (first === -1) {
+      throw new Error(`page ${instruction.targetPage ?? ''} is not in the document`);
+    }
+
+    if (position === 'before') {
+      return first;
+    }
+    // After the last copy of the target page
+    let last = first;
+    rest.forEach((entry, index) => {
+      if (entry.source === target) {
+        last = index;
+      }
+    });
+    return last + 1;
+  }
+}
@@ -0,0 +1,78 @@
+import { PDFDocument } from 'pdf-lib';
+import { PdfPageInserter } from './PdfPageInserter';
+import { InsertPagesOptions } from '../types';
+
+// Pages are told apart by their width: 100 + n for target page n, 200 + n for insert page n
+async function createPdf(pageCount: number, baseWidth: number): Promise<Buffer> {
+  const document = await PDFDocument.create();
+  for (let number = 1; number <= pageCount; number++) {
+    document.addPage([baseWidth + number, 200]);
+  }
+  return Buffer.from(await document.save());
+}
+
+async function insert(options: InsertPagesOptions, targetPages: number = 6): Promise<string[]> {
+  const files = [
+    {
+      data: await createPdf(targetPages, 100),
+      fileName: 'invoice.pdf',
+      mimeType: 'application/pdf',
+    },
+    { data: await createPdf(2, 200), fileName: 'terms.pdf', mimeType: 'application/pdf' },
+  ];
+  const result = await new PdfPageInserter().execute({ files, options });
+
+  return (await PDFDocument.load(result.pdf))
+    .getPages()
+    .map(page => page.getWidth())
+    .map(width => (width > 200 ? `I${width - 200}` : `T${width - 100}`));
+}
+
+describe('PdfPageInserter', () => {
+  it('inserts before a page', async () => {
+    expect(await insert({ position: 'before', targetPage: 1 }, 2)).toEqual([
+      'I1',
+      'I2',
+      'T1',
+      'T2',
+    ]);
+  });
+
+  it('inserts after a page, by default after the last one', async () => {
+    expect(await insert({ position: 'after', targetPage: 1 }, 2)).toEqual(['T1', 'I1', 'I2', 'T2']);
+    expect(await insert({}, 2)).toEqual(['T1', 'T2', 'I1', 'I2']);
+  });
+
+  it('inserts only the selected pages', async () => {
+    expect(await insert({ position: 'after', targetPage: 2, pages: '2' }, 3)).toEqual([
+      'T1',
+      'T2',
+      'I2',
+      'T3',
+    ]);
+  });
+
+  it('inserts after the target page and then every interval pages', async () => {
+    expect(await insert({ position: 'every', targetPage: 2, interval: 2, pages: '1' })).toEqual([
+      'T1',
+      'T2',
+      'I1',
+      'T3',
+      'T4',
+      'I1',
+      'T5',
+      'T6',
+      'I1',
+    ]);
+  });
+
+  it('rejects a target page outside the document', async () => {
+    await expect(insert({ position: 'before', targetPage: 7 })).rejects.toThrow(
+      /Page 7 does not exist, the target PDF has 6 page/
+    );
+  });
+
+  it('rejects a page selection that matches nothing', async () => {
+    await expect(insert({ pages: '5' })).rejects.toThrow(/does not match any page of terms\.pdf/);
+  });
+});
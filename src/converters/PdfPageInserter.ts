@@ -0,0 +1,81 @@
+import { BaseConverter } from './BaseConverter';
+import { ConversionInput, InsertPagesOptions } from '../types';
+import { createError } from '../utils/errors';
+import { resolvePageIndices } from '../utils/pageRanges';
+import { loadPdfDocument } from '../utils/pdfSecurity';
+
+/**
+ * Insert pages of one PDF into another. Expects the target PDF as the first
+ * file and the PDF to insert as the second.
+ */
+export class PdfPageInserter extends BaseConverter<InsertPagesOptions> {
+  constructor() {
+    super('PdfPageInserter', 50 * 1024 * 1024, ['.pdf']);
+  }
+
+  async convert(input: ConversionInput<InsertPagesOptions>): Promise<Buffer> {
+    const [targetFile, insertFile] = input.files || [];
+    if (!targetFile || !insertFile) {
+      throw createError.missingFile('Both the target PDF and the PDF to insert are required');
+    }
+
+    const options = input.options || {};
+    const target = await loadPdfDocument(targetFile.data, options.password);
+    const source = await loadPdfDocument(insertFile.data, options.password);
+
+    const totalPages = target.getPageCount();
+    const pageIndices = resolvePageIndices(options.pages, source.getPageCount());
+    if (pageIndices.length === 0) {
+      throw createError.invalidInput(
+        `"${options.pages || ''}" does not match any page of ${insertFile.fileName}`
+      );
+    }
+
+    const insertionPoints = this.getInsertionPoints(totalPages, options);
+
+    // Insert from the back so the positions in front stay valid. Every
+    // insertion needs its own copies, a page can only be in the tree once.
+    for (const point of [...insertionPoints].reverse()) {
+      const pages = await target.copyPages(source, pageIndices);
+      pages.forEach((page, offset) => target.insertPage(point + offset, page));
+    }
+
+    this.logger.info(
+      `Inserted ${pageIndices.length} page(s) at ${insertionPoints.length} position(s)`,
+      { position: options.position || 'after' }
+    );
+
+    return Buffer.from(await target.save({ updateFieldAppearances: false }));
+  }
+
+  /**
+   * Number of target pages in front of every insertion, ascending
+   */
+  private getInsertionPoints(totalPages: number, options: InsertPagesOptions): number[] {
+    const position = options.position || 'after';
+    const targetPage = Math.floor(options.targetPage ?? totalPages);
+
+    if (targetPage < 1 || targetPage > totalPages) {
+      throw createError.invalidInput(
+        `Page ${targetPage} does not exist, the target PDF has ${totalPages} page(s)`
+      );
+    }
+
+    if (position === 'before') {
+      return [targetPage - 1];
+    }
+    if (position === 'after') {
+      return [targetPage];
+    }
+
+    const interval = Math.floor(options.interval ?? 1);
+    if (interval < 1) {
+      throw createError.invalidInput('The interval must be at least 1 page');
+    }
+    const points: number[] = [];
+    for (let point = targetPage; point <= totalPages; point += interval) {
+      points.push(point);
+    }
+    return points;
+  }
+}
@@ -0,0 +1,81 @@
+import sharp from 'sharp';
+import { BasePdfOperation } from './BasePdfOperation';
+import { ConversionInput, PdfToImageOptions, RenderedPage } from '../types';
+import { createError } from '../utils/errors';
+import { BrowserPool } from '../utils/browserPool';
+import { resolvePageIndices } from '../utils/pageRanges';
+import { PdfPageRenderer } from '../utils/pdfRenderer';
+
+const MIME_TYPES = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+export class PdfRasterizer extends BasePdfOperation<PdfToImageOptions, RenderedPage[]> {
+  constructor() {
+    super('PdfRasterizer');
+  }
+
+  protected async run(input: ConversionInput<PdfToImageOptions>): Promise<RenderedPage[]> {
+    const options = input.options || {};
+    const format = options.format || 'png';
+    const dpi = options.dpi || 150;
+
+    if (!(format in MIME_TYPES)) {
+      throw createError.unsupportedFormat(`Unsupported image format: ${format}`);
+    }
+    if (dpi < 1 || dpi > 1200) {
+      throw createError.invalidInput('DPI must be between 1 and 1200');
+    }
+
+    return BrowserPool.getInstance().withPage(async page => {
+      const renderer = new PdfPageRenderer(page);
+
+      try {
+        const totalPages = await renderer.open(input.file!.data, options.password);
+        const indices = resolvePageIndices(options.pages, totalPages);
+
+        this.logger.info(`Rendering ${indices.length} of ${totalPages} page(s)`, { format, dpi });
+
+        const images: RenderedPage[] = [];
+        for (const index of indices) {
+          const png = await renderer.renderPage(index + 1, dpi / 72);
+          images.push({ number: index + 1, ...(await this.encode(png, options, dpi)) });
+        }
+
+        return images;
+      } finally {
+        await renderer.close();
+      }
+    });
+  }
+
+  private async encode(
+    png: Buffer,
+    options: PdfToImageOptions,
+    dpi: number
+  ): Promise<Omit<RenderedPage, 'number'>> {
+    const format = options.format || 'png';
+    const quality = options.quality || 90;
+
+    let image = sharp(png).withMetadata({ density: dpi });
+    if (format === 'jpeg') {
+      image = image.jpeg({ quality, mozjpeg: true });
+    } else if (format === 'webp') {
+      image = image.webp({ quality });
+    } else {
+      image = image.png({ compressionLevel: 9 });
+    }
+
+    const { data, info } = await image.toBuffer({ resolveWithObject: true });
+
+    return {
+      data,
+      mimeType: MIME_TYPES[format],
+      extension: format === 'jpeg' ? 'jpg' : format,
+      width: info.width,
+      height: info.height,
+    };
+  }
+}
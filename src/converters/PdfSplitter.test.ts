@@ -0,0 +1,49 @@
+import { PDFDocument } from 'pdf-lib';
+import { PdfSplitter } from './PdfSplitter';
+import { ErrorCode } from '../types';
+import { encryptPdf, loadPdfDocument } from '../utils/pdfSecurity';
+
+async function createPdf(pageCount: number): Promise<Buffer> {
+  const document = await PDFDocument.create();
+  for (let number = 1; number <= pageCount; number++) {
+    document.addPage([100 + number, 200]);
+  }
+  return Buffer.from(await document.save());
+}
+
+describe('PdfSplitter', () => {
+  it('opens an encrypted PDF and protects and titles every chunk', async () => {
+    const data = await encryptPdf(await createPdf(3), { userPassword: 'input secret' });
+
+    const chunks = await new PdfSplitter().execute({
+      file: { data, fileName: 'scan.pdf', mimeType: 'application/pdf' },
+      options: {
+        mode: 'chunkSize',
+        chunkSize: 2,
+        password: 'input secret',
+        security: { userPassword: 'chunk secret' },
+        documentProperties: { title: 'Scan part' },
+      },
+    });
+
+    expect(chunks.map(chunk => chunk.pages)).toEqual([[1, 2], [3]]);
+    for (const chunk of chunks) {
+      await expect(loadPdfDocument(chunk.pdf)).rejects.toThrow(/password protected/);
+      const document = await loadPdfDocument(chunk.pdf, 'chunk secret');
+      expect(document.getTitle()).toBe('Scan part');
+    }
+  });
+
+  it('keeps the unauthorized error of a missing input password', async () => {
+    const data = await encryptPdf(await createPdf(1), { userPassword: 'input secret' });
+
+    await expect(
+      new PdfSplitter().execute({
+        file: { data, fileName: 'scan.pdf', mimeType: 'application/pdf' },
+      })
+    ).rejects.toMatchObject({
+      code: ErrorCode.UNAUTHORIZED,
+      message: expect.stringMatching(/password protected/),
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { PDFDocument } from 'pdf-lib';
+import { BasePdfOperation } from './BasePdfOperation';
+import { ConversionInput, SplitChunk, SplitOptions } from '../types';
+import { createError } from '../utils/errors';
+import { parsePageRange } from '../utils/pageRanges';
+import { readOutline } from '../utils/outline';
+
+interface ChunkPlan {
+  indices: number[];
+  title?: string;
+}
+
+export class PdfSplitter extends BasePdfOperation<SplitOptions, SplitChunk[]> {
+  constructor() {
+    super('PdfSplitter');
+  }
+
+  protected async run(input: ConversionInput<SplitOptions>): Promise<SplitChunk[]> {
+    const options = input.options || {};
+    const source = await this.loadPdf(input.file!.data, options.password);
+    const totalPages = source.getPageCount();
+
+    if (totalPages === 0) {
+      throw createError.invalidInput('The PDF has no pages to split');
+    }
+
+    const plan = this.planChunks(source, totalPages, options);
+    if (plan.length === 0) {
+      throw createError.invalidInput('Split settings did not select any pages');
+    }
+
+    this.logger.info(`Splitting ${totalPages} pages into ${plan.length} chunk(s)`, {
+      mode: options.mode || 'everyPage',
+    });
+
+    const chunks: SplitChunk[] = [];
+    for (const { indices, title } of plan) {
+      const chunkPdf = await PDFDocument.create();
+      const copiedPages = await chunkPdf.copyPages(source, indices);
+      copiedPages.forEach(page => chunkPdf.addPage(page));
+
+      const pdfBytes = await chunkPdf.save();
+      chunks.push({
+        pdf: await this.finishPdf(Buffer.from(pdfBytes), options),
+        pages: indices.map(index => index + 1),
+        ...(title !== undefined && { title }),
+      });
+    }
+
+    return chunks;
+  }
+
+  private planChunks(source: PDFDocument, totalPages: number, options: SplitOptions): ChunkPlan[] {
+    switch (options.mode || 'everyPage') {
+      case 'ranges':
+        return this.planByRanges(totalPages, options.ranges);
+      case 'chunkSize':
+        return this.planBySize(totalPages, options.chunkSize || 1);
+      case 'everyPage':
+        return this.planBySize(totalPages, 1);
+      case 'bookmarks':
+        return this.planByBookmarks(source, totalPages);
+      default:
+        throw createError.invalidInput(`Unsupported split mode: ${options.mode}`);
+    }
+  }
+
+  private planByRanges(totalPages: number, ranges?: string): ChunkPlan[] {
+    if (!ranges || ranges.trim().length === 0) {
+      throw createError.invalidInput('Page ranges are required for range split mode');
+    }
+
+    // Each comma-separated part becomes its own chunk (e.g. "1-3,4-10" -> 2 files)
+    return ranges
+      .split(',')
+      .map(part => ({ indices: parsePageRange(part, totalPages) }))
+      .filter(chunk => chunk.indices.length > 0);
+  }
+
+  private planBySize(totalPages: number, chunkSize: number): ChunkPlan[] {
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw createError.invalidInput('Chunk size must be a positive whole number');
+    }
+
+    const plan: ChunkPlan[] = [];
+    for (let start = 0; start < totalPages; start += chunkSize) {
+      const end = Math.min(start + chunkSize, totalPages);
+      plan.push({ indices: Array.from({ length: end - start }, (_, i) => start + i) });
+    }
+    return plan;
+  }
+
+  private planByBookmarks(source: PDFDocument, totalPages: number): ChunkPlan[] {
+    const starts = new Map<number, string>();
+    for (const entry of readOutline(source)) {
+      // Keep the first bookmark pointing at a page
+      if (entry.pageIndex !== null && !starts.has(entry.pageIndex)) {
+        starts.set(entry.pageIndex, entry.title);
+      }
+    }
+
+    if (starts.size === 0) {
+      throw createError.invalidInput('The PDF has no top-level bookmarks to split on');
+    }
+
+    const sortedStarts = [...starts.keys()].sort((a, b) => a - b);
+
+    return sortedStarts.map((start, i) => {
+      // Pages before the first bookmark belong to the first chunk
+      const from = i === 0 ? 0 : start;
+      const to = sortedStarts[i + 1] ?? totalPages;
+      return {
+        indices: Array.from({ length: to - from }, (_, offset) => from + offset),
+        title: starts.get(start) || '',
+      };
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { BasePdfOperation } from './BasePdfOperation';
+import { ConversionInput, ExtractTextOptions, ExtractTextResult, PageText } from '../types';
+import { resolvePageIndices } from '../utils/pageRanges';
+import { openPdfJsDocument } from '../utils/pdfjs';
+
+export class PdfTextExtractor extends BasePdfOperation<ExtractTextOptions, ExtractTextResult> {
+  constructor() {
+    super('PdfTextExtractor');
+  }
+
+  protected async run(input: ConversionInput<ExtractTextOptions>): Promise<ExtractTextResult> {
+    const options = input.options || {};
+    const document = await openPdfJsDocument(input.file!.data, options.password);
+
+    try {
+      const indices = resolvePageIndices(options.pages, document.numPages);
+      const pages: PageText[] = [];
+
+      for (const index of indices) {
+        const page = await document.getPage(index + 1);
+        pages.push({ number: index + 1, text: await this.extractPageText(page) });
+        page.cleanup();
+      }
+
+      this.logger.info(`Extracted text from ${pages.length} of ${document.numPages} page(s)`);
+
+      return {
+        totalPages: document.numPages,
+        pages,
+        text: pages.map(page => page.text).join('\n\n'),
+      };
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  private async extractPageText(page: PDFPageProxy): Promise<string> {
+    const content = await page.getTextContent();
+    let text = '';
+
+    for (const item of content.items) {
+      // Marked content items carry no text
+      if (!('str' in item)) {
+        continue;
+      }
+
+      const textItem = item as TextItem;
+      text += textItem.str;
+      if (textItem.hasEOL) {
+        text += '\n';
+      }
+    }
+
+    return text
+      .split('\n')
+      .map(line => line.trimEnd())
+      .join('\n')
+      .trim();
+  }
+}
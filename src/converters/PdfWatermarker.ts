@@ -0,0 +1,29 @@
+import { BaseConverter } from './BaseConverter';
+import { ConversionInput, WatermarkOptions, WatermarkPdfOptions } from '../types';
+import { createError } from '../utils/errors';
+import { hasWatermark } from '../utils/watermark';
+
+export class PdfWatermarker extends BaseConverter<WatermarkPdfOptions> {
+  constructor() {
+    super('PdfWatermarker', 50 * 1024 * 1024, ['.pdf']);
+  }
+
+  async convert(input: ConversionInput<WatermarkPdfOptions>): Promise<Buffer> {
+    if (!input.file) {
+      throw createError.missingFile('PDF file is required');
+    }
+
+    if (!hasWatermark(input.options)) {
+      throw createError.invalidInput('Watermark text or image is required');
+    }
+
+    // The watermark itself is drawn by the shared post-processing stage
+    return input.file.data;
+  }
+
+  protected override getWatermarkOptions(
+    options?: WatermarkPdfOptions
+  ): WatermarkOptions | undefined {
+    return options;
+  }
+}
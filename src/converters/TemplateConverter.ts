@@ -0,0 +1,46 @@
+import { BaseConverter } from './BaseConverter';
+import { HtmlConverter } from './HtmlConverter';
+import { MarkdownConverter } from './MarkdownConverter';
+import { ConversionInput, TemplateOptions } from '../types';
+import { createError } from '../utils/errors';
+import { renderTemplate } from '../utils/template';
+
+/**
+ * Binds data into a Handlebars template and renders the result with the
+ * HTML or Markdown converter
+ */
+export class TemplateConverter extends BaseConverter<TemplateOptions> {
+  constructor() {
+    super('TemplateConverter', 10 * 1024 * 1024, ['.html', '.htm', '.hbs', '.md', '.markdown']);
+  }
+
+  async convert(input: ConversionInput<TemplateOptions>): Promise<Buffer> {
+    const options = input.options || {};
+
+    const template = this.getContent(input);
+    if (!template || template.trim().length === 0) {
+      throw createError.invalidInput('Template is empty');
+    }
+
+    const content = renderTemplate(template, options.data || {}, {
+      ...(options.variables && { variables: options.variables }),
+      ...(options.partials && { partials: options.partials }),
+      ...(options.locale && { locale: options.locale }),
+      ...(options.currency && { currency: options.currency }),
+      ...(options.timeZone && { timeZone: options.timeZone }),
+    });
+
+    this.logger.info('Rendered template', {
+      format: options.templateFormat || 'html',
+      length: content.length,
+    });
+
+    // Output stages (watermark, properties, encryption) run once in this
+    // converter's postProcess, so only the rendering step is delegated. The
+    // render converters ignore the template settings in the options.
+    if (options.templateFormat === 'markdown') {
+      return new MarkdownConverter().convert({ content, options });
+    }
+    return new HtmlConverter().convert({ content, options });
+  }
+}
@@ -1,7 +1,8 @@
 import PDFDocument from 'pdfkit';
 import { BaseConverter } from './BaseConverter';
 import { ConversionInput, TextOptions } from '../types';
-import { createError } from '../utils/errors';
+import { createError, isConversionError } from '../utils/errors';
+import { getEmbeddableFontPath } from '../utils/fonts';
 
 export class TextConverter extends BaseConverter<TextOptions> {
   constructor() {
@@ -26,8 +27,6 @@ export class TextConverter extends BaseConverter<TextOptions> {
             right: options.margins || 72,
           },
           info: {
-            Title: 'Text to PDF',
-            Author: 'PDF Converter API',
             Creator: 'dante-pdf',
           },
         });
@@ -57,7 +56,11 @@ export class TextConverter extends BaseConverter<TextOptions> {
         doc.end();
       } catch (error) {
         this.logger.error('Text conversion failed:', error);
-        reject(createError.conversionFailed('Failed to convert text to PDF'));
+        reject(
+          isConversionError(error)
+            ? error
+            : createError.conversionFailed('Failed to convert text to PDF')
+        );
       }
     });
   }
@@ -67,7 +70,8 @@ export class TextConverter extends BaseConverter<TextOptions> {
     const fontFamily = options.fontFamily || 'Helvetica';
     const fontSize = options.fontSize || 12;
 
-    doc.font(fontFamily);
+    // PDF/A only allows embedded fonts, the built-in ones never are
+    doc.font(options.pdfa ? getEmbeddableFontPath(fontFamily) : fontFamily);
     doc.fontSize(fontSize);
 
     // Set font color
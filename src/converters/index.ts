@@ -1,7 +1,22 @@
 export { BaseConverter } from './BaseConverter';
+export { BasePdfOperation } from './BasePdfOperation';
 export { TextConverter } from './TextConverter';
 export { MarkdownConverter } from './MarkdownConverter';
 export { HtmlConverter } from './HtmlConverter';
 export { ImageConverter } from './ImageConverter';
 export { DocsConverter } from './DocsConverter';
+export { TemplateConverter } from './TemplateConverter';
 export { PdfMerger } from './PdfMerger';
+export { PdfSplitter } from './PdfSplitter';
+export { PdfDecryptor } from './PdfDecryptor';
+export { PdfWatermarker } from './PdfWatermarker';
+export { PdfTextExtractor } from './PdfTextExtractor';
+export { PdfRasterizer } from './PdfRasterizer';
+export { PdfInspector } from './PdfInspector';
+export { PdfFormFiller } from './PdfFormFiller';
+export { PdfFormReader } from './PdfFormReader';
+export { PdfFlattener } from './PdfFlattener';
+export { PdfPageEditor } from './PdfPageEditor';
+export { PdfPageInserter } from './PdfPageInserter';
+export { PdfBlankPageRemover } from './PdfBlankPageRemover';
+export { PdfCombiner } from './PdfCombiner';
@@ -0,0 +1,20 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class DantePdfPasswordApi implements ICredentialType {
+  name = 'dantePdfPasswordApi';
+
+  displayName = 'Dante PDF Password';
+
+  properties: INodeProperties[] = [
+    {
+      displayName: 'Password',
+      name: 'password',
+      type: 'string',
+      typeOptions: {
+        password: true,
+      },
+      default: '',
+      description: 'Password used to open encrypted PDF files',
+    },
+  ];
+}
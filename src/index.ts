@@ -2,3 +2,4 @@ export * from './types';
 export * from './utils';
 export * from './converters';
 export * from './nodes/DantePdf/DantePdf.node';
+export * from './credentials/DantePdfPasswordApi.credentials';
@@ -1,4 +1,5 @@
 import {
+  GenericValue,
   IExecuteFunctions,
   INodeExecutionData,
   INodeType,
@@ -9,15 +10,22 @@ import {
 
 import { dantePdfDescription } from './description';
 import {
+  BaseConverter,
   TextConverter,
   MarkdownConverter,
   HtmlConverter,
   ImageConverter,
   DocsConverter,
   PdfMerger,
+  PdfCombiner,
+  TemplateConverter,
 } from '../../converters';
 import {
+  BaseOptions,
+  CombineOptions,
+  TemplateOptions,
   ConversionInput,
+  ConversionResult,
   ConversionType,
   N8nConversionOptions,
   TextOptions,
@@ -26,9 +34,49 @@ import {
   ImageOptions,
   DocsOptions,
   MergeOptions,
+  N8nMergeOptions,
+  N8nAdditionalOptions,
 } from '../../types';
 import { logger } from '../../utils/logger';
-import { resolveInputs, PdfSource } from '../../utils/resolveInputs';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { getFieldValue, groupItems, sortByKeys } from '../../utils/itemFields';
+import { renderTemplate } from '../../utils/template';
+import { resolveInputs, PdfSource, ResolvedPdf } from '../../utils/resolveInputs';
+import { executePdfOperation, isPdfOperation } from './pdfOperations';
+import {
+  configureBrowserPool,
+  getInputPassword,
+  getMailMergeOptions,
+  getMergeOptions,
+  getOutputOptions,
+  getTemplateOptions,
+  getWatermarkOptions,
+} from './parameters';
+
+interface MergeGroup {
+  /** Value of the Group By field shared by the items */
+  key?: GenericValue;
+  /** Items merged together, or null for all items */
+  itemIndices: number[] | null;
+}
+
+// Conversions that offer the watermark option during generation
+const WATERMARK_CONVERSIONS: ConversionType[] = [
+  'markdownToPdf',
+  'htmlToPdf',
+  'docxToPdf',
+  'templateToPdf',
+];
+
+// Conversions that can combine all input items into one PDF
+const COMBINE_CONVERSIONS: ConversionType[] = [
+  'markdownToPdf',
+  'htmlToPdf',
+  'textToPdf',
+  'docxToPdf',
+  'imageToPdf',
+  'templateToPdf',
+];
 
 export class DantePdf implements INodeType {
   description: INodeTypeDescription = {
@@ -44,136 +92,97 @@ export class DantePdf implements INodeType {
     },
     inputs: ['main' as NodeConnectionType],
     outputs: ['main' as NodeConnectionType],
+    credentials: [
+      {
+        name: 'dantePdfPasswordApi',
+        required: true,
+        displayOptions: {
+          show: {
+            passwordSource: ['credential'],
+          },
+        },
+      },
+    ],
     properties: dantePdfDescription,
   };
 
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const returnData: INodeExecutionData[] = [];
 
+    configureBrowserPool(this);
+
     // Check if this is a PDF merge operation
     const firstConversionType = this.getNodeParameter('conversionType', 0) as ConversionType;
 
     if (firstConversionType === 'mergePdfs') {
-      // Handle PDF merge specially - collect PDFs using configured sources
-      try {
-        const mergeOptions = this.getNodeParameter('mergeOptions', 0, {}) as MergeOptions;
-        const additionalOptions = this.getNodeParameter('additionalOptions', 0, {}) as any;
-
-        // Get PDF sources configuration
-        const pdfSourcesParam = this.getNodeParameter('pdfSources', 0, {}) as {
-          sources?: PdfSource[];
-        };
-        const sourcesConfig = pdfSourcesParam.sources || [];
+      // Merge the PDFs of all items into one, or one per group of items
+      const groupBy = this.getNodeParameter('mergeGroupBy', 0, '') as string;
+      const groups: MergeGroup[] = groupBy
+        ? groupItems(this.getInputData(), groupBy)
+        : [{ itemIndices: null }];
 
-        // Resolve all PDF inputs using the configured sources
-        const { paths: allPdfs, cleanup } = await resolveInputs(this, 0, sourcesConfig);
+      for (const group of groups) {
+        const pairedItem = group.itemIndices
+          ? group.itemIndices.map(item => ({ item }))
+          : { item: 0 };
 
         try {
-          if (allPdfs.length < 2) {
-            throw new Error(`Need at least 2 PDFs to merge. Found ${allPdfs.length} PDF(s).`);
+          returnData.push({ ...(await mergePdfs(this, group)), pairedItem });
+        } catch (error) {
+          if (this.continueOnFail()) {
+            returnData.push({
+              json: {
+                ...(group.itemIndices && { group: group.key }),
+                error: error instanceof Error ? error.message : 'Unknown error',
+              },
+              pairedItem,
+            });
+          } else {
+            throw error;
           }
-
-          // Prepare merge input
-          const mergeInput = {
-            files: allPdfs,
-            options: mergeOptions,
-          };
-
-          // Perform merge
-          const result = await performConversion('mergePdfs', mergeInput, {
-            conversionType: 'mergePdfs',
-            mergeOptions,
-          });
-
-          // Create output binary data
-          const outputPropertyName = additionalOptions.outputPropertyName || 'data';
-          const binaryData = {
-            [outputPropertyName]: {
-              data: result.pdf.toString('base64'),
-              mimeType: 'application/pdf',
-              fileName: generateFileName('mergePdfs', 0),
-              fileExtension: 'pdf',
-            },
-          };
-
-          returnData.push({
-            json: {
-              success: true,
-              pages: result.metadata.pages || 0,
-              size: result.metadata.size,
-              processingTime: result.metadata.processingTime,
-              totalInputFiles: allPdfs.length,
-              mergedFiles: allPdfs.map(f => f.fileName),
-            },
-            binary: binaryData,
-            pairedItem: { item: 0 },
-          });
-        } finally {
-          // Always cleanup temporary files
-          await cleanup();
-        }
-      } catch (error) {
-        if (this.continueOnFail()) {
-          returnData.push({
-            json: {
-              error: error instanceof Error ? error.message : 'Unknown error',
-            },
-            pairedItem: { item: 0 },
-          });
-        } else {
-          throw error;
         }
       }
 
       return [returnData];
     }
 
-    // Handle other conversion types normally (one by one)
-    // For non-merge operations, we process the input data
+    // Handle other conversion types item by item, several at a time if configured.
+    // Results are collected per item so the output keeps the input order.
     const items = this.getInputData();
+    const executionOptions = this.getNodeParameter('executionOptions', 0, {}) as {
+      concurrency?: number;
+    };
+
+    // Render every item into one PDF instead of one PDF per item
+    if (
+      COMBINE_CONVERSIONS.includes(firstConversionType) &&
+      this.getNodeParameter('combineItems', 0, false)
+    ) {
+      return [
+        await combineItems(this, items, firstConversionType, executionOptions.concurrency || 1),
+      ];
+    }
 
-    for (let i = 0; i < items.length; i++) {
+    const convertItem = async (i: number): Promise<INodeExecutionData[]> => {
       try {
         const conversionType = this.getNodeParameter('conversionType', i) as ConversionType;
-        const inputSource = this.getNodeParameter('inputSource', i) as string;
-        const additionalOptions = this.getNodeParameter('additionalOptions', i, {}) as any;
-
-        // Get conversion-specific options
-        const options: N8nConversionOptions = { conversionType };
-
-        if (conversionType === 'markdownToPdf') {
-          options.markdownOptions = this.getNodeParameter(
-            'markdownOptions',
-            i,
-            {}
-          ) as MarkdownOptions;
-        } else if (conversionType === 'textToPdf') {
-          options.textOptions = this.getNodeParameter('textOptions', i, {}) as TextOptions;
-        } else if (conversionType === 'htmlToPdf') {
-          options.htmlOptions = this.getNodeParameter('htmlOptions', i, {}) as HtmlOptions;
-        } else if (conversionType === 'imageToPdf') {
-          options.imageOptions = this.getNodeParameter('imageOptions', i, {}) as ImageOptions;
-        } else if (conversionType === 'docxToPdf') {
-          options.docsOptions = this.getNodeParameter('docsOptions', i, {}) as DocsOptions;
-        }
+        const additionalOptions = this.getNodeParameter(
+          'additionalOptions',
+          i,
+          {}
+        ) as N8nAdditionalOptions;
 
-        // Merge additional options
-        const baseOptions = {
-          format: additionalOptions.format || 'A4',
-          landscape: additionalOptions.landscape || false,
-        };
+        // Operations on an existing PDF may emit several items per input item
+        if (isPdfOperation(conversionType)) {
+          return await executePdfOperation(this, i, conversionType, additionalOptions);
+        }
 
-        // Prepare conversion input
-        const conversionInput = await prepareConversionInput(
-          this,
-          i,
-          inputSource,
-          baseOptions,
-          options
-        );
+        // A template with a records field emits one PDF per record
+        if (conversionType === 'templateToPdf' && getMailMergeOptions(this, i).recordsField) {
+          return await mailMerge(this, i, additionalOptions);
+        }
 
-        // Perform conversion
-        const result = await performConversion(conversionType, conversionInput, options);
+        const { result } = await convertItemToPdf(this, i, conversionType, additionalOptions);
 
         // Create output binary data
         const outputPropertyName = additionalOptions.outputPropertyName || 'data';
@@ -186,25 +195,30 @@ export class DantePdf implements INodeType {
           },
         };
 
-        returnData.push({
-          json: {
-            ...(items[i]?.json || {}),
-            conversionType,
-            metadata: result.metadata,
+        return [
+          {
+            json: {
+              ...(items[i]?.json || {}),
+              conversionType,
+              metadata: result.metadata,
+            },
+            binary: binaryData,
+            pairedItem: { item: i },
           },
-          binary: binaryData,
-        });
+        ];
       } catch (error) {
         logger.error('PDF conversion failed:', error);
 
         if (this.continueOnFail()) {
-          returnData.push({
-            json: {
-              ...(items[i]?.json || {}),
-              error: error instanceof Error ? error.message : 'Unknown error',
+          return [
+            {
+              json: {
+                ...(items[i]?.json || {}),
+                error: error instanceof Error ? error.message : 'Unknown error',
+              },
+              pairedItem: { item: i },
             },
-          });
-          continue;
+          ];
         } else {
           throw new NodeOperationError(
             this.getNode(),
@@ -213,17 +227,453 @@ export class DantePdf implements INodeType {
           );
         }
       }
+    };
+
+    const results = await mapWithConcurrency(
+      items.map((_, i) => i),
+      executionOptions.concurrency || 1,
+      convertItem
+    );
+    for (const result of results) {
+      returnData.push(...result);
     }
 
     return [returnData];
   }
 }
 
+/**
+ * Convert the content of one input item to PDF
+ */
+async function convertItemToPdf(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  conversionType: ConversionType,
+  additionalOptions: N8nAdditionalOptions,
+  settings: {
+    /** Leave out encryption and document properties, which a combined PDF gets once */
+    combining?: boolean;
+    /** Data bound into a template instead of the item JSON */
+    templateData?: Pick<TemplateOptions, 'data' | 'variables'>;
+  } = {}
+): Promise<{ result: ConversionResult; sourceFileName?: string | undefined }> {
+  const { combining = false } = settings;
+  const inputSource = context.getNodeParameter('inputSource', itemIndex) as string;
+
+  // Get conversion-specific options
+  const options: N8nConversionOptions = { conversionType };
+
+  if (conversionType === 'markdownToPdf') {
+    options.markdownOptions = context.getNodeParameter(
+      'markdownOptions',
+      itemIndex,
+      {}
+    ) as MarkdownOptions;
+  } else if (conversionType === 'textToPdf') {
+    options.textOptions = context.getNodeParameter('textOptions', itemIndex, {}) as TextOptions;
+  } else if (conversionType === 'htmlToPdf') {
+    options.htmlOptions = context.getNodeParameter('htmlOptions', itemIndex, {}) as HtmlOptions;
+  } else if (conversionType === 'imageToPdf') {
+    options.imageOptions = context.getNodeParameter('imageOptions', itemIndex, {}) as ImageOptions;
+  } else if (conversionType === 'docxToPdf') {
+    options.docsOptions = context.getNodeParameter('docsOptions', itemIndex, {}) as DocsOptions;
+  } else if (conversionType === 'templateToPdf') {
+    options.htmlOptions = context.getNodeParameter('htmlOptions', itemIndex, {}) as HtmlOptions;
+    options.templateOptions = {
+      ...getTemplateOptions(context, itemIndex),
+      ...settings.templateData,
+    };
+  }
+
+  // Merge additional options. A combined PDF gets these once, not per item.
+  const watermark = WATERMARK_CONVERSIONS.includes(conversionType)
+    ? getWatermarkOptions(context, itemIndex)
+    : undefined;
+  const baseOptions = {
+    format: additionalOptions.format || 'A4',
+    landscape: additionalOptions.landscape || false,
+    ...(!combining && getOutputOptions(context, itemIndex)),
+    ...(watermark && { watermark }),
+    ...(additionalOptions.pdfa && !combining && { pdfa: true }),
+  };
+
+  // Prepare conversion input
+  const conversionInput = await prepareConversionInput(
+    context,
+    itemIndex,
+    inputSource,
+    baseOptions,
+    options
+  );
+
+  // Perform conversion
+  const result = await performConversion(conversionType, conversionInput, options);
+
+  return { result, sourceFileName: conversionInput.file?.fileName };
+}
+
+/**
+ * Convert every input item and join the results into one PDF. Encryption and
+ * document properties are applied once, to the combined document.
+ */
+async function combineItems(
+  context: IExecuteFunctions,
+  items: INodeExecutionData[],
+  conversionType: ConversionType,
+  concurrency: number
+): Promise<INodeExecutionData[]> {
+  const combineOptions = context.getNodeParameter('combineOptions', 0, {}) as {
+    separator?: CombineOptions['separator'];
+    addBookmarks?: boolean;
+  };
+  const additionalOptions = context.getNodeParameter(
+    'additionalOptions',
+    0,
+    {}
+  ) as N8nAdditionalOptions;
+
+  type RenderedItem =
+    | { itemIndex: number; pdf: Buffer; title: string }
+    | { itemIndex: number; errorItem: INodeExecutionData };
+
+  const renderedItems = await mapWithConcurrency(
+    items.map((_, i) => i),
+    concurrency,
+    async (i): Promise<RenderedItem> => {
+      try {
+        const itemOptions = context.getNodeParameter(
+          'additionalOptions',
+          i,
+          {}
+        ) as N8nAdditionalOptions;
+        const { result, sourceFileName } = await convertItemToPdf(
+          context,
+          i,
+          conversionType,
+          itemOptions,
+          { combining: true }
+        );
+        const { bookmarkTitle } = context.getNodeParameter('combineOptions', i, {}) as {
+          bookmarkTitle?: string;
+        };
+
+        return {
+          itemIndex: i,
+          pdf: result.pdf,
+          title: bookmarkTitle || sourceFileName?.replace(/\.[^.]+$/, '') || `Item ${i + 1}`,
+        };
+      } catch (error) {
+        logger.error('PDF conversion failed:', error);
+
+        if (context.continueOnFail()) {
+          return {
+            itemIndex: i,
+            errorItem: {
+              json: {
+                ...(items[i]?.json || {}),
+                error: error instanceof Error ? error.message : 'Unknown error',
+              },
+              pairedItem: { item: i },
+            },
+          };
+        }
+        throw new NodeOperationError(
+          context.getNode(),
+          error instanceof Error ? error.message : 'PDF conversion failed',
+          { itemIndex: i }
+        );
+      }
+    }
+  );
+
+  const parts = renderedItems.filter(
+    (item): item is Extract<RenderedItem, { pdf: Buffer }> => 'pdf' in item
+  );
+  const errorItems = renderedItems.flatMap(item => ('errorItem' in item ? [item.errorItem] : []));
+
+  if (parts.length === 0) {
+    return errorItems;
+  }
+
+  const combinerInput: ConversionInput<CombineOptions> = {
+    files: parts.map(part => ({
+      data: part.pdf,
+      mimeType: 'application/pdf',
+      fileName: `item_${part.itemIndex + 1}.pdf`,
+    })),
+    options: {
+      separator: combineOptions.separator || 'pageBreak',
+      bookmarks: combineOptions.addBookmarks !== false,
+      titles: parts.map(part => part.title),
+      ...getOutputOptions(context, 0),
+      ...(additionalOptions.pdfa && { pdfa: true }),
+    },
+  };
+
+  const combiner = new PdfCombiner();
+  const result = await combiner.execute(combinerInput);
+  const outputPropertyName = additionalOptions.outputPropertyName || 'data';
+
+  return [
+    {
+      json: {
+        conversionType,
+        combinedItems: parts.length,
+        bookmarks: combinerInput.options!.bookmarks ? parts.map(part => part.title) : [],
+        metadata: result.metadata,
+      },
+      binary: {
+        [outputPropertyName]: {
+          data: result.pdf.toString('base64'),
+          mimeType: 'application/pdf',
+          fileName: generateFileName(conversionType, 0),
+          fileExtension: 'pdf',
+        },
+      },
+      pairedItem: parts.map(part => ({ item: part.itemIndex })),
+    },
+    ...errorItems,
+  ];
+}
+
+/**
+ * Render the template once per element of the records array of an item,
+ * emitting one PDF item per record
+ */
+async function mailMerge(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  additionalOptions: N8nAdditionalOptions
+): Promise<INodeExecutionData[]> {
+  const { recordsField, fileName } = getMailMergeOptions(context, itemIndex);
+  const item = context.getInputData()[itemIndex]?.json || {};
+
+  const records = getFieldValue(item, recordsField);
+  if (!Array.isArray(records)) {
+    throw new Error(`The field "${recordsField}" is not an array`);
+  }
+
+  const outputPropertyName = additionalOptions.outputPropertyName || 'data';
+
+  const renderRecord = async (
+    record: (typeof records)[number],
+    index: number
+  ): Promise<INodeExecutionData> => {
+    const number = index + 1;
+    const data = record !== null && typeof record === 'object' ? record : { value: record };
+
+    try {
+      const variables = { item, index, number };
+      const { result } = await convertItemToPdf(
+        context,
+        itemIndex,
+        'templateToPdf',
+        additionalOptions,
+        { templateData: { data, variables } }
+      );
+
+      const name = fileName
+        ? toSafeFileName(renderTemplate(fileName, data, { variables, noEscape: true })).trim()
+        : '';
+
+      return {
+        json: {
+          conversionType: 'templateToPdf',
+          record: data,
+          recordNumber: number,
+          totalRecords: records.length,
+          metadata: result.metadata,
+        },
+        binary: {
+          [outputPropertyName]: {
+            data: result.pdf.toString('base64'),
+            mimeType: 'application/pdf',
+            fileName: `${(name || `template_${itemIndex}_${number}`).replace(/\.pdf$/i, '')}.pdf`,
+            fileExtension: 'pdf',
+          },
+        },
+        pairedItem: { item: itemIndex },
+      };
+    } catch (error) {
+      logger.error(`PDF conversion failed for record ${number}:`, error);
+
+      if (context.continueOnFail()) {
+        return {
+          json: {
+            record: data,
+            recordNumber: number,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          },
+          pairedItem: { item: itemIndex },
+        };
+      }
+      throw new NodeOperationError(
+        context.getNode(),
+        `Record ${number}: ${error instanceof Error ? error.message : 'PDF conversion failed'}`,
+        { itemIndex }
+      );
+    }
+  };
+
+  // Records render one after the other. Items are already rendered with the
+  // node's concurrency, so rendering records in parallel too would multiply it.
+  const results: INodeExecutionData[] = [];
+  for (const [index, record] of records.entries()) {
+    results.push(await renderRecord(record, index));
+  }
+  return results;
+}
+
+/**
+ * Merge the PDFs of a group of items (all items when not grouping) into one
+ * PDF item. Parameters are read from the first item of the group.
+ */
+async function mergePdfs(
+  context: IExecuteFunctions,
+  group: MergeGroup
+): Promise<Pick<INodeExecutionData, 'json' | 'binary'>> {
+  const itemIndex = group.itemIndices?.[0] ?? 0;
+  const mergeOptions: MergeOptions = {
+    ...getMergeOptions(context, itemIndex),
+    ...getOutputOptions(context, itemIndex),
+  };
+  const additionalOptions = context.getNodeParameter(
+    'additionalOptions',
+    itemIndex,
+    {}
+  ) as N8nAdditionalOptions;
+
+  const inputPassword = await getInputPassword(context, itemIndex);
+  if (inputPassword !== undefined) {
+    mergeOptions.inputPassword = inputPassword;
+  }
+
+  if (additionalOptions.pdfa) {
+    mergeOptions.pdfa = true;
+  }
+
+  // Get PDF sources configuration
+  const pdfSourcesParam = context.getNodeParameter('pdfSources', itemIndex, {}) as {
+    sources?: PdfSource[];
+  };
+  const sourcesConfig = pdfSourcesParam.sources || [];
+
+  // Resolve all PDF inputs using the configured sources
+  const { paths: allPdfs, cleanup } = await resolveInputs(
+    context,
+    itemIndex,
+    sourcesConfig,
+    group.itemIndices ?? undefined
+  );
+
+  try {
+    // A group may consist of a single PDF, e.g. a customer with one statement
+    if (group.itemIndices && allPdfs.length === 0) {
+      throw new Error(`No PDFs found for the group "${String(group.key)}"`);
+    }
+    if (!group.itemIndices && allPdfs.length < 2) {
+      throw new Error(`Need at least 2 PDFs to merge. Found ${allPdfs.length} PDF(s).`);
+    }
+
+    // Bookmark titles are evaluated for the item every PDF comes from
+    if (mergeOptions.bookmarks) {
+      mergeOptions.titles = allPdfs.map(pdf => {
+        const { bookmarkTitle } = context.getNodeParameter(
+          'mergeOptions',
+          pdf.itemIndex,
+          {}
+        ) as N8nMergeOptions;
+        return bookmarkTitle || pdf.fileName.replace(/\.[^.]+$/, '');
+      });
+    }
+
+    const order = getMergeOrder(context, itemIndex, allPdfs);
+    if (order) {
+      mergeOptions.order = order;
+    }
+
+    // Prepare merge input
+    const mergeInput = {
+      files: allPdfs,
+      options: mergeOptions,
+    };
+
+    // Perform merge
+    const result = await performConversion('mergePdfs', mergeInput, {
+      conversionType: 'mergePdfs',
+      mergeOptions,
+    });
+
+    // Create output binary data
+    const outputPropertyName = additionalOptions.outputPropertyName || 'data';
+    const binaryData = {
+      [outputPropertyName]: {
+        data: result.pdf.toString('base64'),
+        mimeType: 'application/pdf',
+        fileName: generateFileName('mergePdfs', itemIndex),
+        fileExtension: 'pdf',
+      },
+    };
+
+    return {
+      json: {
+        ...(group.itemIndices && { group: group.key }),
+        success: true,
+        pages: result.metadata.pages || 0,
+        size: result.metadata.size,
+        processingTime: result.metadata.processingTime,
+        metadata: result.metadata,
+        totalInputFiles: allPdfs.length,
+        mergedFiles: (order || allPdfs.map((_, index) => index)).map(
+          index => allPdfs[index]!.fileName
+        ),
+        ...(result.metadata.removedPages && { removedPages: result.metadata.removedPages }),
+      },
+      binary: binaryData,
+    };
+  } finally {
+    // Always cleanup temporary files
+    await cleanup();
+  }
+}
+
+/**
+ * Positions of the PDFs in merge order, or undefined to keep the input order
+ */
+function getMergeOrder(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  pdfs: ResolvedPdf[]
+): number[] | undefined {
+  const mergeOrder = context.getNodeParameter('mergeOrder', itemIndex, 'input') as
+    | 'input'
+    | 'fileName'
+    | 'field'
+    | 'expression';
+  if (mergeOrder === 'input') {
+    return undefined;
+  }
+
+  const items = context.getInputData();
+  const field = context.getNodeParameter('mergeOrderField', itemIndex, '') as string;
+  const keys = pdfs.map(pdf => {
+    if (mergeOrder === 'fileName') {
+      return pdf.fileName;
+    }
+    if (mergeOrder === 'field') {
+      return getFieldValue(items[pdf.itemIndex]?.json, field);
+    }
+    return context.getNodeParameter('mergeOrderValue', pdf.itemIndex, '') as GenericValue;
+  });
+
+  return sortByKeys(keys);
+}
+
 async function prepareConversionInput(
   context: IExecuteFunctions,
   itemIndex: number,
   inputSource: string,
-  baseOptions: any,
+  baseOptions: BaseOptions,
   options: N8nConversionOptions
 ): Promise<ConversionInput> {
   const input: ConversionInput = { options: { ...baseOptions } };
@@ -244,17 +694,11 @@ async function prepareConversionInput(
   if (options.docsOptions) {
     input.options = { ...input.options, ...options.docsOptions };
   }
+  if (options.templateOptions) {
+    input.options = { ...input.options, ...options.templateOptions };
+  }
   if (options.mergeOptions) {
-    // Handle page ranges transformation
-    const mergeOptions = options.mergeOptions;
-    if (mergeOptions.pageRanges && (mergeOptions.pageRanges as any).ranges) {
-      const ranges: { [filename: string]: string } = {};
-      for (const range of (mergeOptions.pageRanges as any).ranges) {
-        ranges[range.fileName] = range.pages;
-      }
-      mergeOptions.pageRanges = ranges;
-    }
-    input.options = { ...input.options, ...mergeOptions };
+    input.options = { ...input.options, ...options.mergeOptions };
   }
 
   switch (inputSource) {
@@ -287,11 +731,11 @@ async function prepareConversionInput(
 
         if (item.binary) {
           for (const [key, binary] of Object.entries(item.binary)) {
-            if ((binary as any).mimeType === 'application/pdf') {
+            if (binary.mimeType === 'application/pdf') {
               input.files.push({
-                data: Buffer.from((binary as any).data, 'base64'),
-                mimeType: (binary as any).mimeType,
-                fileName: (binary as any).fileName || `file_${key}.pdf`,
+                data: Buffer.from(binary.data, 'base64'),
+                mimeType: binary.mimeType,
+                fileName: binary.fileName || `file_${key}.pdf`,
               });
             }
           }
@@ -310,11 +754,11 @@ async function prepareConversionInput(
 
         if (item.binary) {
           for (const [key, binary] of Object.entries(item.binary)) {
-            if ((binary as any).mimeType.startsWith('image/')) {
+            if (binary.mimeType.startsWith('image/')) {
               input.files.push({
-                data: Buffer.from((binary as any).data, 'base64'),
-                mimeType: (binary as any).mimeType,
-                fileName: (binary as any).fileName || `image_${key}`,
+                data: Buffer.from(binary.data, 'base64'),
+                mimeType: binary.mimeType,
+                fileName: binary.fileName || `image_${key}`,
               });
             }
           }
@@ -349,8 +793,8 @@ async function performConversion(
   conversionType: ConversionType,
   input: ConversionInput,
   options: N8nConversionOptions
-) {
-  let converter: any;
+): Promise<ConversionResult> {
+  let converter: BaseConverter<BaseOptions>;
 
   switch (conversionType) {
     case 'markdownToPdf':
@@ -368,6 +812,9 @@ async function performConversion(
     case 'docxToPdf':
       converter = new DocsConverter();
       break;
+    case 'templateToPdf':
+      converter = new TemplateConverter();
+      break;
     case 'mergePdfs':
       converter = new PdfMerger();
       break;
@@ -386,6 +833,25 @@ async function performConversion(
   }
 }
 
+/**
+ * Replace each run of characters that are not allowed in file names on some
+ * file system (including control characters) with an underscore
+ */
+function toSafeFileName(name: string): string {
+  let safe = '';
+  let replacing = false;
+  for (const char of name) {
+    if (char.charCodeAt(0) < 32 || '\\/:*?"<>|'.includes(char)) {
+      safe += replacing ? '' : '_';
+      replacing = true;
+    } else {
+      safe += char;
+      replacing = false;
+    }
+  }
+  return safe;
+}
+
 function generateFileName(conversionType: ConversionType, itemIndex: number): string {
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
   const baseNames: { [key in ConversionType]: string } = {
@@ -394,7 +860,20 @@ function generateFileName(conversionType: ConversionType, itemIndex: number): st
     htmlToPdf: 'html',
     imageToPdf: 'images',
     docxToPdf: 'document',
+    templateToPdf: 'template',
     mergePdfs: 'merged',
+    splitPdf: 'split',
+    decryptPdf: 'unlocked',
+    watermarkPdf: 'watermarked',
+    extractText: 'text',
+    pdfToImage: 'page',
+    inspectPdf: 'inspection',
+    fillPdfForm: 'filled',
+    listFormFields: 'fields',
+    flattenPdf: 'flattened',
+    editPages: 'edited',
+    insertPages: 'inserted',
+    removeBlankPages: 'cleaned',
   };
 
   return `${baseNames[conversionType]}_${itemIndex}_${timestamp}.pdf`;
@@ -1,5 +1,24 @@
 import { INodeProperties } from 'n8n-workflow';
 
+// Conversion types whose output PDF gets the security settings and document properties
+const PDF_OUTPUT_CONVERSIONS = [
+  'markdownToPdf',
+  'textToPdf',
+  'htmlToPdf',
+  'imageToPdf',
+  'docxToPdf',
+  'templateToPdf',
+  'mergePdfs',
+  'splitPdf',
+  'decryptPdf',
+  'watermarkPdf',
+  'fillPdfForm',
+  'flattenPdf',
+  'editPages',
+  'insertPages',
+  'removeBlankPages',
+];
+
 export const dantePdfDescription: INodeProperties[] = [
   // Display Options
   {
@@ -32,11 +51,76 @@ export const dantePdfDescription: INodeProperties[] = [
         value: 'docxToPdf',
         description: 'Convert Word documents to PDF',
       },
+      {
+        name: 'Template to PDF',
+        value: 'templateToPdf',
+        description: 'Bind the JSON of each item into an HTML or Markdown template',
+      },
       {
         name: 'Merge PDFs',
         value: 'mergePdfs',
         description: 'Merge multiple PDF files',
       },
+      {
+        name: 'Split PDF',
+        value: 'splitPdf',
+        description: 'Split a PDF into multiple files',
+      },
+      {
+        name: 'Decrypt PDF',
+        value: 'decryptPdf',
+        description: 'Remove the password from an encrypted PDF',
+      },
+      {
+        name: 'Watermark PDF',
+        value: 'watermarkPdf',
+        description: 'Stamp text or an image on the pages of a PDF',
+      },
+      {
+        name: 'Extract Text',
+        value: 'extractText',
+        description: 'Read the text of each page of a PDF into JSON',
+      },
+      {
+        name: 'PDF to Image',
+        value: 'pdfToImage',
+        description: 'Render PDF pages to PNG, JPEG or WebP images',
+      },
+      {
+        name: 'Inspect PDF',
+        value: 'inspectPdf',
+        description: 'Read page count, page sizes, metadata, encryption, forms and attachments',
+      },
+      {
+        name: 'Fill PDF Form',
+        value: 'fillPdfForm',
+        description: 'Set the fields of a fillable PDF form from item data',
+      },
+      {
+        name: 'List Form Fields',
+        value: 'listFormFields',
+        description: 'Read the name, type, value, options and position of every form field',
+      },
+      {
+        name: 'Flatten PDF',
+        value: 'flattenPdf',
+        description: 'Draw form fields and annotations into the pages so they cannot be edited',
+      },
+      {
+        name: 'Edit Pages',
+        value: 'editPages',
+        description: 'Rotate, delete, move or duplicate pages of a PDF',
+      },
+      {
+        name: 'Insert Pages',
+        value: 'insertPages',
+        description: 'Insert pages of one PDF into another before or after a page',
+      },
+      {
+        name: 'Remove Blank Pages',
+        value: 'removeBlankPages',
+        description: 'Render every page and remove the ones without ink',
+      },
     ],
     default: 'markdownToPdf',
     description: 'The type of conversion to perform',
@@ -49,7 +133,21 @@ export const dantePdfDescription: INodeProperties[] = [
     type: 'options',
     displayOptions: {
       hide: {
-        conversionType: ['mergePdfs'],
+        conversionType: [
+          'mergePdfs',
+          'splitPdf',
+          'decryptPdf',
+          'watermarkPdf',
+          'extractText',
+          'pdfToImage',
+          'inspectPdf',
+          'fillPdfForm',
+          'listFormFields',
+          'flattenPdf',
+          'editPages',
+          'insertPages',
+          'removeBlankPages',
+        ],
       },
     },
     options: [
@@ -99,80 +197,1195 @@ export const dantePdfDescription: INodeProperties[] = [
       show: {
         inputSource: ['content'],
       },
-    },
-    default: '',
-    placeholder: 'Enter your content here...',
-    description: 'The content to convert to PDF',
+    },
+    default: '',
+    placeholder: 'Enter your content here...',
+    description: 'The content to convert to PDF',
+  },
+
+  {
+    displayName: 'Binary Property',
+    name: 'binaryPropertyName',
+    type: 'string',
+    displayOptions: {
+      show: {
+        inputSource: ['binaryData'],
+      },
+      hide: {
+        conversionType: ['mergePdfs'],
+      },
+    },
+    default: 'data',
+    required: true,
+    description: 'The name of the binary property containing the data to convert',
+  },
+
+  {
+    displayName: 'Binary Property',
+    name: 'binaryPropertyName',
+    type: 'string',
+    displayOptions: {
+      show: {
+        conversionType: [
+          'splitPdf',
+          'decryptPdf',
+          'watermarkPdf',
+          'extractText',
+          'pdfToImage',
+          'inspectPdf',
+          'fillPdfForm',
+          'listFormFields',
+          'flattenPdf',
+          'editPages',
+          'insertPages',
+          'removeBlankPages',
+        ],
+      },
+    },
+    default: 'data',
+    required: true,
+    description: 'The name of the binary property containing the PDF',
+  },
+
+  {
+    displayName: 'Insert Binary Property',
+    name: 'insertBinaryPropertyName',
+    type: 'string',
+    displayOptions: {
+      show: {
+        conversionType: ['insertPages'],
+      },
+    },
+    default: 'insert',
+    required: true,
+    description: 'The name of the binary property containing the PDF whose pages are inserted',
+  },
+
+  {
+    displayName: 'URL',
+    name: 'url',
+    type: 'string',
+    displayOptions: {
+      show: {
+        inputSource: ['url'],
+        conversionType: ['htmlToPdf'],
+      },
+    },
+    default: '',
+    placeholder: 'https://example.com',
+    description: 'The URL to fetch content from',
+  },
+
+  // Input PDF Password
+  {
+    displayName: 'Password Source',
+    name: 'passwordSource',
+    type: 'options',
+    displayOptions: {
+      show: {
+        conversionType: ['decryptPdf'],
+      },
+    },
+    options: [
+      {
+        name: 'Parameter',
+        value: 'parameter',
+        description: 'Enter the password in the node',
+      },
+      {
+        name: 'Credential',
+        value: 'credential',
+        description: 'Use a stored Dante PDF Password credential',
+      },
+    ],
+    default: 'parameter',
+    description: 'Where to get the password of the encrypted PDF',
+  },
+
+  {
+    displayName: 'Input Password Source',
+    name: 'passwordSource',
+    type: 'options',
+    displayOptions: {
+      show: {
+        conversionType: [
+          'mergePdfs',
+          'splitPdf',
+          'extractText',
+          'pdfToImage',
+          'inspectPdf',
+          'fillPdfForm',
+          'listFormFields',
+          'flattenPdf',
+          'editPages',
+          'insertPages',
+          'removeBlankPages',
+        ],
+      },
+    },
+    options: [
+      {
+        name: 'None',
+        value: 'none',
+        description: 'Input PDFs are not password protected',
+      },
+      {
+        name: 'Parameter',
+        value: 'parameter',
+        description: 'Enter the password in the node',
+      },
+      {
+        name: 'Credential',
+        value: 'credential',
+        description: 'Use a stored Dante PDF Password credential',
+      },
+    ],
+    default: 'none',
+    description: 'Password used to open encrypted input PDFs',
+  },
+
+  {
+    displayName: 'PDF Password',
+    name: 'pdfPassword',
+    type: 'string',
+    typeOptions: {
+      password: true,
+    },
+    displayOptions: {
+      show: {
+        conversionType: [
+          'decryptPdf',
+          'mergePdfs',
+          'splitPdf',
+          'extractText',
+          'pdfToImage',
+          'inspectPdf',
+          'fillPdfForm',
+          'listFormFields',
+          'flattenPdf',
+          'editPages',
+          'insertPages',
+          'removeBlankPages',
+        ],
+        passwordSource: ['parameter'],
+      },
+    },
+    default: '',
+    description: 'Password of the encrypted PDF',
+  },
+
+  {
+    displayName: 'Pages',
+    name: 'pageRange',
+    type: 'string',
+    displayOptions: {
+      show: {
+        conversionType: ['extractText', 'pdfToImage'],
+      },
+    },
+    default: '',
+    placeholder: '1-3,5,7-9',
+    description: 'Pages to read. Leave empty for all pages.',
+  },
+
+  // Form Filling Options
+  {
+    displayName: 'Field Values',
+    name: 'formDataSource',
+    type: 'options',
+    displayOptions: {
+      show: {
+        conversionType: ['fillPdfForm'],
+      },
+    },
+    options: [
+      {
+        name: 'Field Mapping',
+        value: 'mapping',
+        description: 'Set the listed fields',
+      },
+      {
+        name: 'Whole Item JSON',
+        value: 'json',
+        description:
+          'Set every field whose name matches a top-level key of the item JSON. Other keys are ignored.',
+      },
+    ],
+    default: 'mapping',
+    description: 'Where the values for the form fields come from',
+  },
+
+  {
+    displayName: 'Fields',
+    name: 'formFields',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
+    displayOptions: {
+      show: {
+        conversionType: ['fillPdfForm'],
+        formDataSource: ['mapping'],
+      },
+    },
+    default: {},
+    placeholder: 'Add Field',
+    options: [
+      {
+        name: 'field',
+        displayName: 'Field',
+        values: [
+          {
+            displayName: 'Field Name',
+            name: 'name',
+            type: 'string',
+            default: '',
+            description:
+              'Full name of the form field, as listed by Inspect PDF or List Form Fields',
+          },
+          {
+            displayName: 'Value',
+            name: 'value',
+            type: 'string',
+            default: '',
+            description:
+              'Text, "true"/"false" for checkboxes, or the option to select. Separate several list options with commas.',
+          },
+        ],
+      },
+    ],
+  },
+
+  {
+    displayName: 'Form Options',
+    name: 'formOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    displayOptions: {
+      show: {
+        conversionType: ['fillPdfForm'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Flatten',
+        name: 'flatten',
+        type: 'boolean',
+        default: false,
+        description:
+          'Whether to turn the fields into regular page content so they cannot be edited',
+      },
+      {
+        displayName: 'Ignore Unknown Fields',
+        name: 'ignoreUnknownFields',
+        type: 'boolean',
+        default: false,
+        description:
+          'Whether to skip mapped names that do not match a field instead of failing. Always on for Whole Item JSON.',
+      },
+    ],
+  },
+
+  {
+    displayName: 'Flatten Options',
+    name: 'flattenOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    displayOptions: {
+      show: {
+        conversionType: ['flattenPdf'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Form Fields',
+        name: 'forms',
+        type: 'boolean',
+        default: true,
+        description: 'Whether to draw form field values into the pages and remove the form',
+      },
+      {
+        displayName: 'Annotations',
+        name: 'annotations',
+        type: 'boolean',
+        default: true,
+        description:
+          'Whether to draw comments, highlights, stamps and drawings into the pages. Links are always kept.',
+      },
+    ],
+  },
+
+  // Edit Pages Options
+  {
+    displayName: 'Page Instructions',
+    name: 'pageInstructions',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+      sortable: true,
+    },
+    displayOptions: {
+      show: {
+        conversionType: ['editPages'],
+      },
+    },
+    default: {},
+    placeholder: 'Add Instruction',
+    description: 'Applied from top to bottom. Page numbers always refer to the original document.',
+    options: [
+      {
+        name: 'instruction',
+        displayName: 'Instruction',
+        values: [
+          {
+            displayName: 'Action',
+            name: 'action',
+            type: 'options',
+            options: [
+              { name: 'Rotate', value: 'rotate' },
+              { name: 'Delete', value: 'delete' },
+              { name: 'Move', value: 'move' },
+              { name: 'Duplicate', value: 'duplicate' },
+            ],
+            default: 'rotate',
+          },
+          {
+            displayName: 'Pages',
+            name: 'pages',
+            type: 'string',
+            default: '',
+            placeholder: '2-4, 7',
+            description: 'Pages of the original document',
+          },
+          {
+            displayName: 'Angle',
+            name: 'angle',
+            type: 'options',
+            displayOptions: {
+              show: {
+                action: ['rotate'],
+              },
+            },
+            options: [
+              { name: '90° Clockwise', value: 90 },
+              { name: '180°', value: 180 },
+              { name: '90° Counter-Clockwise', value: -90 },
+            ],
+            default: 90,
+          },
+          {
+            displayName: 'Position',
+            name: 'position',
+            type: 'options',
+            displayOptions: {
+              show: {
+                action: ['move'],
+              },
+            },
+            options: [
+              { name: 'To Start', value: 'start' },
+              { name: 'To End', value: 'end' },
+              { name: 'Before Page', value: 'before' },
+              { name: 'After Page', value: 'after' },
+            ],
+            default: 'start',
+          },
+          {
+            displayName: 'Target Page',
+            name: 'targetPage',
+            type: 'number',
+            typeOptions: {
+              minValue: 1,
+            },
+            displayOptions: {
+              show: {
+                action: ['move'],
+                position: ['before', 'after'],
+              },
+            },
+            default: 1,
+            description: 'Page of the original document to move the pages next to',
+          },
+          {
+            displayName: 'Copies',
+            name: 'copies',
+            type: 'number',
+            typeOptions: {
+              minValue: 1,
+            },
+            displayOptions: {
+              show: {
+                action: ['duplicate'],
+              },
+            },
+            default: 1,
+            description: 'Number of copies placed after each page',
+          },
+        ],
+      },
+    ],
+  },
+
+  // Insert Pages Options
+  {
+    displayName: 'Position',
+    name: 'insertPosition',
+    type: 'options',
+    displayOptions: {
+      show: {
+        conversionType: ['insertPages'],
+      },
+    },
+    options: [
+      {
+        name: 'After Page',
+        value: 'after',
+      },
+      {
+        name: 'Before Page',
+        value: 'before',
+      },
+      {
+        name: 'Repeatedly',
+        value: 'every',
+        description: 'After the page, then again every few pages',
+      },
+    ],
+    default: 'after',
+    description: 'Where the pages are inserted',
+  },
+
+  {
+    displayName: 'Page',
+    name: 'insertAtPage',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+    },
+    displayOptions: {
+      show: {
+        conversionType: ['insertPages'],
+      },
+    },
+    default: 1,
+    description: 'Page of the target PDF the pages are inserted before or after',
+  },
+
+  {
+    displayName: 'Every N Pages',
+    name: 'insertInterval',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+    },
+    displayOptions: {
+      show: {
+        conversionType: ['insertPages'],
+        insertPosition: ['every'],
+      },
+    },
+    default: 1,
+    description:
+      'Pages of the target PDF between two insertions, e.g. 3 for invoices of three pages',
+  },
+
+  {
+    displayName: 'Pages to Insert',
+    name: 'insertPageRange',
+    type: 'string',
+    displayOptions: {
+      show: {
+        conversionType: ['insertPages'],
+      },
+    },
+    default: '',
+    placeholder: '1-2',
+    description: 'Pages of the inserted PDF. Leave empty to insert all pages.',
+  },
+
+  // Remove Blank Pages Options
+  {
+    displayName: 'Blank Page Threshold (%)',
+    name: 'blankPageThreshold',
+    type: 'number',
+    typeOptions: {
+      minValue: 0,
+      maxValue: 100,
+      numberPrecision: 3,
+    },
+    displayOptions: {
+      show: {
+        conversionType: ['removeBlankPages'],
+      },
+    },
+    default: 0.01,
+    description:
+      'Pages whose ink covers at most this share of the page are blank. Raise it for scans with dark edges or stains.',
+  },
+
+  // Image Output Options
+  {
+    displayName: 'Image Format',
+    name: 'imageFormat',
+    type: 'options',
+    displayOptions: {
+      show: {
+        conversionType: ['pdfToImage'],
+      },
+    },
+    options: [
+      { name: 'PNG', value: 'png' },
+      { name: 'JPEG', value: 'jpeg' },
+      { name: 'WebP', value: 'webp' },
+    ],
+    default: 'png',
+    description: 'Format of the rendered images',
+  },
+
+  {
+    displayName: 'DPI',
+    name: 'dpi',
+    type: 'number',
+    displayOptions: {
+      show: {
+        conversionType: ['pdfToImage'],
+      },
+    },
+    typeOptions: {
+      minValue: 18,
+      maxValue: 600,
+    },
+    default: 150,
+    description: 'Resolution of the rendered images (72 = PDF size, 150 = screen, 300 = print)',
+  },
+
+  {
+    displayName: 'Image Quality',
+    name: 'imageQuality',
+    type: 'number',
+    displayOptions: {
+      show: {
+        conversionType: ['pdfToImage'],
+        imageFormat: ['jpeg', 'webp'],
+      },
+    },
+    typeOptions: {
+      minValue: 1,
+      maxValue: 100,
+    },
+    default: 90,
+    description: 'Compression quality of JPEG and WebP images',
+  },
+
+  {
+    displayName: 'Output',
+    name: 'imageOutputMode',
+    type: 'options',
+    displayOptions: {
+      show: {
+        conversionType: ['pdfToImage'],
+      },
+    },
+    options: [
+      {
+        name: 'One Item Per Page',
+        value: 'itemPerPage',
+        description: 'Emit each page image as its own item',
+      },
+      {
+        name: 'One Binary Property Per Page',
+        value: 'binaryPerPage',
+        description: 'Emit a single item with a binary property per page (data_1, data_2, ...)',
+      },
+    ],
+    default: 'itemPerPage',
+    description: 'How to return the page images',
+  },
+
+  // Split Options
+  {
+    displayName: 'Split Mode',
+    name: 'splitMode',
+    type: 'options',
+    displayOptions: {
+      show: {
+        conversionType: ['splitPdf'],
+      },
+    },
+    options: [
+      {
+        name: 'Every Page',
+        value: 'everyPage',
+        description: 'Create one file per page',
+      },
+      {
+        name: 'Fixed Chunk Size',
+        value: 'chunkSize',
+        description: 'Create files with a fixed number of pages',
+      },
+      {
+        name: 'Page Ranges',
+        value: 'ranges',
+        description: 'Create one file per comma-separated page range',
+      },
+      {
+        name: 'Bookmarks',
+        value: 'bookmarks',
+        description: 'Start a new file at each top-level bookmark',
+      },
+    ],
+    default: 'everyPage',
+    description: 'How to split the PDF',
+  },
+
+  {
+    displayName: 'Page Ranges',
+    name: 'splitRanges',
+    type: 'string',
+    displayOptions: {
+      show: {
+        conversionType: ['splitPdf'],
+        splitMode: ['ranges'],
+      },
+    },
+    default: '',
+    required: true,
+    placeholder: '1-3,4-10',
+    description: 'Comma-separated page ranges, each range becomes its own file',
+  },
+
+  {
+    displayName: 'Pages Per File',
+    name: 'chunkSize',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+    },
+    displayOptions: {
+      show: {
+        conversionType: ['splitPdf'],
+        splitMode: ['chunkSize'],
+      },
+    },
+    default: 1,
+    description: 'Number of pages in each output file',
+  },
+
+  // Watermark Options
+  {
+    displayName: 'Watermark',
+    name: 'watermarkType',
+    type: 'options',
+    displayOptions: {
+      show: {
+        conversionType: ['watermarkPdf'],
+      },
+    },
+    options: [
+      {
+        name: 'Text',
+        value: 'text',
+        description: 'Stamp a line of text',
+      },
+      {
+        name: 'Image',
+        value: 'image',
+        description: 'Stamp an image from binary data',
+      },
+    ],
+    default: 'text',
+    description: 'What to stamp on the pages',
+  },
+
+  {
+    displayName: 'Watermark',
+    name: 'watermarkType',
+    type: 'options',
+    displayOptions: {
+      show: {
+        conversionType: ['markdownToPdf', 'htmlToPdf', 'docxToPdf', 'templateToPdf'],
+      },
+    },
+    options: [
+      {
+        name: 'None',
+        value: 'none',
+      },
+      {
+        name: 'Text',
+        value: 'text',
+        description: 'Stamp a line of text',
+      },
+      {
+        name: 'Image',
+        value: 'image',
+        description: 'Stamp an image from binary data',
+      },
+    ],
+    default: 'none',
+    description: 'Stamp text or an image on every generated page',
+  },
+
+  {
+    displayName: 'Watermark Text',
+    name: 'watermarkText',
+    type: 'string',
+    displayOptions: {
+      show: {
+        watermarkType: ['text'],
+      },
+    },
+    default: '',
+    required: true,
+    placeholder: 'CONFIDENTIAL',
+    description: 'Text to stamp (Latin-1 characters)',
+  },
+
+  {
+    displayName: 'Watermark Image Property',
+    name: 'watermarkImageProperty',
+    type: 'string',
+    displayOptions: {
+      show: {
+        watermarkType: ['image'],
+      },
+    },
+    default: 'watermark',
+    required: true,
+    description: 'The name of the binary property containing the watermark image',
+  },
+
+  {
+    displayName: 'Watermark Options',
+    name: 'watermarkOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    displayOptions: {
+      show: {
+        watermarkType: ['text', 'image'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Opacity',
+        name: 'opacity',
+        type: 'number',
+        typeOptions: {
+          minValue: 0,
+          maxValue: 1,
+          numberPrecision: 2,
+        },
+        default: 0.3,
+        description: 'Opacity of the watermark (0 = invisible, 1 = solid)',
+      },
+      {
+        displayName: 'Rotation',
+        name: 'rotation',
+        type: 'number',
+        typeOptions: {
+          minValue: -360,
+          maxValue: 360,
+        },
+        default: 45,
+        description: 'Counter-clockwise rotation in degrees',
+      },
+      {
+        displayName: 'Position',
+        name: 'position',
+        type: 'options',
+        options: [
+          { name: 'Center', value: 'center' },
+          { name: 'Top Left', value: 'topLeft' },
+          { name: 'Top Center', value: 'topCenter' },
+          { name: 'Top Right', value: 'topRight' },
+          { name: 'Bottom Left', value: 'bottomLeft' },
+          { name: 'Bottom Center', value: 'bottomCenter' },
+          { name: 'Bottom Right', value: 'bottomRight' },
+          { name: 'Tiled', value: 'tiled' },
+        ],
+        default: 'center',
+        description: 'Where to place the watermark on the page',
+      },
+      {
+        displayName: 'Font Size',
+        name: 'fontSize',
+        type: 'number',
+        default: 48,
+        description: 'Font size of a text watermark',
+      },
+      {
+        displayName: 'Color',
+        name: 'color',
+        type: 'color',
+        default: '#808080',
+        description: 'Color of a text watermark',
+      },
+      {
+        displayName: 'Image Scale',
+        name: 'imageScale',
+        type: 'number',
+        typeOptions: {
+          minValue: 0.01,
+          numberPrecision: 2,
+        },
+        default: 1,
+        description: 'Scale factor of an image watermark (1 = 1 pixel per point)',
+      },
+      {
+        displayName: 'Margin',
+        name: 'margin',
+        type: 'number',
+        default: 36,
+        description: 'Distance from the page edge in points for corner and edge positions',
+      },
+      {
+        displayName: 'Pages',
+        name: 'pages',
+        type: 'string',
+        default: '',
+        placeholder: '1-3,5',
+        description: 'Pages to stamp. Leave empty for all pages.',
+      },
+    ],
+  },
+
+  // Common PDF Options
+  {
+    displayName: 'Additional Options',
+    name: 'additionalOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    options: [
+      {
+        displayName: 'Page Format',
+        name: 'format',
+        type: 'options',
+        options: [
+          { name: 'A4', value: 'A4' },
+          { name: 'A3', value: 'A3' },
+          { name: 'A5', value: 'A5' },
+          { name: 'Letter', value: 'Letter' },
+          { name: 'Legal', value: 'Legal' },
+          { name: 'Tabloid', value: 'Tabloid' },
+        ],
+        default: 'A4',
+        description: 'Page format for the PDF',
+      },
+      {
+        displayName: 'Landscape',
+        name: 'landscape',
+        type: 'boolean',
+        default: false,
+        description: 'Whether to use landscape orientation',
+      },
+      {
+        displayName: 'Output Binary Property Name',
+        name: 'outputPropertyName',
+        type: 'string',
+        default: 'data',
+        description: 'Name of the binary property to store the PDF',
+      },
+      {
+        displayName: 'PDF/A-2b (Archival)',
+        name: 'pdfa',
+        type: 'boolean',
+        default: false,
+        description:
+          'Whether to produce a PDF/A-2b file for long-term archiving. Applies to conversions and Merge PDFs, cannot be combined with a password. The item JSON gets a validation report in metadata.pdfa.',
+      },
+      {
+        displayName: 'Max Browser Pages',
+        name: 'maxBrowserPages',
+        type: 'number',
+        typeOptions: {
+          minValue: 1,
+          maxValue: 32,
+        },
+        default: 4,
+        description:
+          'Maximum number of pages the shared browser renders at the same time. Applies to Markdown, HTML, DOCX, Template, PDF to Image and blank page detection. The browser is shared by all workflows, so the value of the most recent execution applies to all of them.',
+      },
+      {
+        displayName: 'Browser Idle Timeout (Seconds)',
+        name: 'browserIdleTimeout',
+        type: 'number',
+        typeOptions: {
+          minValue: 0,
+        },
+        default: 60,
+        description:
+          'Close the shared browser after it has been unused for this many seconds. The value of the most recent execution applies to all workflows.',
+      },
+      {
+        displayName: 'Document Properties',
+        name: 'documentProperties',
+        type: 'collection',
+        placeholder: 'Add Property',
+        displayOptions: {
+          show: {
+            '/conversionType': PDF_OUTPUT_CONVERSIONS,
+          },
+        },
+        default: {},
+        description: 'Document information written to the PDF and its XMP metadata',
+        options: [
+          {
+            displayName: 'Title',
+            name: 'title',
+            type: 'string',
+            default: '',
+          },
+          {
+            displayName: 'Author',
+            name: 'author',
+            type: 'string',
+            default: '',
+          },
+          {
+            displayName: 'Subject',
+            name: 'subject',
+            type: 'string',
+            default: '',
+          },
+          {
+            displayName: 'Keywords',
+            name: 'keywords',
+            type: 'string',
+            default: '',
+            placeholder: 'invoice, 2024, customer',
+          },
+          {
+            displayName: 'Creator',
+            name: 'creator',
+            type: 'string',
+            default: '',
+            description: 'Application that created the original document',
+          },
+          {
+            displayName: 'Language',
+            name: 'language',
+            type: 'string',
+            default: '',
+            placeholder: 'en-US',
+            description: 'Natural language of the document (BCP 47 tag)',
+          },
+          {
+            displayName: 'Custom Properties',
+            name: 'customProperties',
+            type: 'fixedCollection',
+            typeOptions: {
+              multipleValues: true,
+            },
+            default: {},
+            options: [
+              {
+                name: 'property',
+                displayName: 'Property',
+                values: [
+                  {
+                    displayName: 'Key',
+                    name: 'key',
+                    type: 'string',
+                    default: '',
+                    placeholder: 'DocumentId',
+                  },
+                  {
+                    displayName: 'Value',
+                    name: 'value',
+                    type: 'string',
+                    default: '',
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+
+  // Combine Items
+  {
+    displayName: 'Combine Items',
+    name: 'combineItems',
+    type: 'boolean',
+    displayOptions: {
+      show: {
+        conversionType: [
+          'markdownToPdf',
+          'htmlToPdf',
+          'textToPdf',
+          'docxToPdf',
+          'imageToPdf',
+          'templateToPdf',
+        ],
+      },
+    },
+    default: false,
+    description: 'Whether to convert all input items into a single PDF instead of one PDF per item',
+  },
+  {
+    displayName: 'Combine Options',
+    name: 'combineOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    displayOptions: {
+      show: {
+        conversionType: [
+          'markdownToPdf',
+          'htmlToPdf',
+          'textToPdf',
+          'docxToPdf',
+          'imageToPdf',
+          'templateToPdf',
+        ],
+        combineItems: [true],
+      },
+    },
+    default: {},
+    options: [
+      {
+        displayName: 'Separator',
+        name: 'separator',
+        type: 'options',
+        options: [
+          {
+            name: 'Page Break',
+            value: 'pageBreak',
+            description: 'Start every item on a new page',
+          },
+          {
+            name: 'Blank Page',
+            value: 'blankPage',
+            description: 'Insert an empty page between items',
+          },
+        ],
+        default: 'pageBreak',
+        description: 'What goes between two items',
+      },
+      {
+        displayName: 'Add Bookmarks',
+        name: 'addBookmarks',
+        type: 'boolean',
+        default: true,
+        description: 'Whether to add a bookmark pointing at the first page of every item',
+      },
+      {
+        displayName: 'Bookmark Title',
+        name: 'bookmarkTitle',
+        type: 'string',
+        default: '',
+        placeholder: '={{ $json.title }}',
+        description:
+          'Title of the bookmark for each item. Defaults to the input file name or "Item N".',
+      },
+    ],
   },
 
+  // Execution Options
   {
-    displayName: 'Binary Property',
-    name: 'binaryPropertyName',
-    type: 'string',
+    displayName: 'Execution',
+    name: 'executionOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
     displayOptions: {
-      show: {
-        inputSource: ['binaryData'],
-      },
       hide: {
         conversionType: ['mergePdfs'],
       },
     },
-    default: 'data',
-    required: true,
-    description: 'The name of the binary property containing the data to convert',
+    default: {},
+    options: [
+      {
+        displayName: 'Concurrency',
+        name: 'concurrency',
+        type: 'number',
+        typeOptions: {
+          minValue: 1,
+          maxValue: 32,
+        },
+        default: 1,
+        description:
+          'Number of items converted at the same time. Browser-based conversions also wait for a free page (see Max Browser Pages).',
+      },
+    ],
   },
 
+  // Security Options
   {
-    displayName: 'URL',
-    name: 'url',
-    type: 'string',
+    displayName: 'Security',
+    name: 'securityOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
     displayOptions: {
       show: {
-        inputSource: ['url'],
-        conversionType: ['htmlToPdf'],
+        conversionType: PDF_OUTPUT_CONVERSIONS,
       },
     },
-    default: '',
-    placeholder: 'https://example.com',
-    description: 'The URL to fetch content from',
-  },
-
-  // Common PDF Options
-  {
-    displayName: 'Additional Options',
-    name: 'additionalOptions',
-    type: 'collection',
-    placeholder: 'Add Option',
     default: {},
     options: [
       {
-        displayName: 'Page Format',
-        name: 'format',
+        displayName: 'User Password',
+        name: 'userPassword',
+        type: 'string',
+        typeOptions: {
+          password: true,
+        },
+        default: '',
+        description: 'Password required to open the PDF',
+      },
+      {
+        displayName: 'Owner Password',
+        name: 'ownerPassword',
+        type: 'string',
+        typeOptions: {
+          password: true,
+        },
+        default: '',
+        description:
+          'Password that lifts the permission restrictions. A random one is used if empty.',
+      },
+      {
+        displayName: 'Encryption',
+        name: 'algorithm',
         type: 'options',
         options: [
-          { name: 'A4', value: 'A4' },
-          { name: 'A3', value: 'A3' },
-          { name: 'A5', value: 'A5' },
-          { name: 'Letter', value: 'Letter' },
-          { name: 'Legal', value: 'Legal' },
-          { name: 'Tabloid', value: 'Tabloid' },
+          { name: 'AES-256', value: 'aes256' },
+          { name: 'AES-128', value: 'aes128' },
         ],
-        default: 'A4',
-        description: 'Page format for the PDF',
+        default: 'aes256',
+        description: 'Encryption algorithm to use',
       },
       {
-        displayName: 'Landscape',
-        name: 'landscape',
+        displayName: 'Allow Printing',
+        name: 'allowPrinting',
         type: 'boolean',
-        default: false,
-        description: 'Whether to use landscape orientation',
+        default: true,
+        description: 'Whether the PDF may be printed',
       },
       {
-        displayName: 'Output Binary Property Name',
-        name: 'outputPropertyName',
-        type: 'string',
-        default: 'data',
-        description: 'Name of the binary property to store the PDF',
+        displayName: 'Allow Modifying',
+        name: 'allowModifying',
+        type: 'boolean',
+        default: true,
+        description: 'Whether the PDF content may be modified',
+      },
+      {
+        displayName: 'Allow Copying',
+        name: 'allowCopying',
+        type: 'boolean',
+        default: true,
+        description: 'Whether text and graphics may be copied',
+      },
+      {
+        displayName: 'Allow Annotating',
+        name: 'allowAnnotating',
+        type: 'boolean',
+        default: true,
+        description: 'Whether annotations may be added and form fields filled',
       },
     ],
   },
@@ -301,7 +1514,7 @@ export const dantePdfDescription: INodeProperties[] = [
     placeholder: 'Add Option',
     displayOptions: {
       show: {
-        conversionType: ['htmlToPdf'],
+        conversionType: ['htmlToPdf', 'templateToPdf'],
       },
     },
     default: {},
@@ -456,6 +1669,123 @@ export const dantePdfDescription: INodeProperties[] = [
     ],
   },
 
+  // Template Options
+  {
+    displayName: 'Template Options',
+    name: 'templateOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    displayOptions: {
+      show: {
+        conversionType: ['templateToPdf'],
+      },
+    },
+    default: {},
+    description:
+      'The content is a Handlebars template. The JSON of each input item is bound into it, e.g. {{customer.name}}. Values are HTML-escaped unless written as {{{value}}}.',
+    options: [
+      {
+        displayName: 'Template Format',
+        name: 'templateFormat',
+        type: 'options',
+        options: [
+          { name: 'HTML', value: 'html' },
+          { name: 'Markdown', value: 'markdown' },
+        ],
+        default: 'html',
+        description: 'Language of the template after the placeholders are filled in',
+      },
+      {
+        displayName: 'Partials',
+        name: 'partials',
+        type: 'fixedCollection',
+        typeOptions: {
+          multipleValues: true,
+        },
+        default: {},
+        description: 'Reusable template snippets, included with {{> name}}',
+        options: [
+          {
+            name: 'partial',
+            displayName: 'Partial',
+            values: [
+              {
+                displayName: 'Name',
+                name: 'name',
+                type: 'string',
+                default: '',
+              },
+              {
+                displayName: 'Template',
+                name: 'template',
+                type: 'string',
+                typeOptions: {
+                  rows: 4,
+                },
+                default: '',
+              },
+            ],
+          },
+        ],
+      },
+      {
+        displayName: 'Records Field',
+        name: 'recordsField',
+        type: 'string',
+        default: '',
+        placeholder: 'recipients',
+        description:
+          'Mail merge: name of an array field in the item JSON (dots for nested fields). Each element is bound into the template and produces its own PDF item. The whole item is available as {{@item}}.',
+      },
+      {
+        displayName: 'File Name',
+        name: 'fileName',
+        type: 'string',
+        default: '',
+        placeholder: 'letter_{{lastName}}',
+        description:
+          'Mail merge: file name template filled with each record, e.g. letter_{{lastName}}. Defaults to template_<item>_<record>.pdf.',
+      },
+      {
+        displayName: 'Locale',
+        name: 'locale',
+        type: 'string',
+        default: 'en-US',
+        placeholder: 'de-DE',
+        description: 'Locale used by the formatDate, formatNumber and formatCurrency helpers',
+      },
+      {
+        displayName: 'Currency',
+        name: 'currency',
+        type: 'string',
+        default: 'USD',
+        placeholder: 'EUR',
+        description: 'Currency code used by formatCurrency when the template does not give one',
+      },
+      {
+        displayName: 'Time Zone',
+        name: 'timeZone',
+        type: 'string',
+        default: '',
+        placeholder: 'Europe/Berlin',
+        description: 'Time zone used by formatDate. Defaults to the time zone of the server.',
+      },
+      {
+        displayName: 'Markdown Theme',
+        name: 'theme',
+        type: 'options',
+        options: [
+          { name: 'Default', value: 'default' },
+          { name: 'GitHub', value: 'github' },
+          { name: 'Dark', value: 'dark' },
+          { name: 'Minimal', value: 'minimal' },
+        ],
+        default: 'default',
+        description: 'Theme for Markdown templates',
+      },
+    ],
+  },
+
   // PDF Sources for Merge
   {
     displayName: 'PDF Sources',
@@ -527,6 +1857,87 @@ export const dantePdfDescription: INodeProperties[] = [
     description: 'Add PDF sources to merge',
   },
 
+  {
+    displayName: 'Group By',
+    name: 'mergeGroupBy',
+    type: 'string',
+    displayOptions: {
+      show: {
+        conversionType: ['mergePdfs'],
+      },
+    },
+    default: '',
+    placeholder: 'customerId',
+    description:
+      'Field of the item JSON (dot notation for nested fields) whose value groups the items. Each group is merged into its own PDF. Leave empty to merge everything into one PDF.',
+  },
+
+  {
+    displayName: 'Order',
+    name: 'mergeOrder',
+    type: 'options',
+    displayOptions: {
+      show: {
+        conversionType: ['mergePdfs'],
+      },
+    },
+    options: [
+      {
+        name: 'Input Order',
+        value: 'input',
+        description: 'Merge the PDFs in the order they are found',
+      },
+      {
+        name: 'File Name',
+        value: 'fileName',
+        description: 'Sort by file name, with numbers in natural order (page2 before page10)',
+      },
+      {
+        name: 'Field',
+        value: 'field',
+        description: 'Sort by a field of the item each PDF comes from',
+      },
+      {
+        name: 'Expression',
+        value: 'expression',
+        description: 'Sort by a value evaluated for the item each PDF comes from',
+      },
+    ],
+    default: 'input',
+    description: 'Order of the PDFs in the merged document',
+  },
+
+  {
+    displayName: 'Order Field',
+    name: 'mergeOrderField',
+    type: 'string',
+    displayOptions: {
+      show: {
+        conversionType: ['mergePdfs'],
+        mergeOrder: ['field'],
+      },
+    },
+    default: '',
+    placeholder: 'sequence',
+    description:
+      'Field of the item JSON to sort by (dot notation for nested fields). Numbers sort by value, text in natural order.',
+  },
+
+  {
+    displayName: 'Order Value',
+    name: 'mergeOrderValue',
+    type: 'string',
+    displayOptions: {
+      show: {
+        conversionType: ['mergePdfs'],
+        mergeOrder: ['expression'],
+      },
+    },
+    default: '',
+    placeholder: '={{ $json.date }}',
+    description: 'Value to sort by, evaluated for the item each PDF comes from',
+  },
+
   // Merge Options
   {
     displayName: 'Merge Options',
@@ -540,12 +1951,53 @@ export const dantePdfDescription: INodeProperties[] = [
     },
     default: {},
     options: [
+      {
+        displayName: 'Mode',
+        name: 'mode',
+        type: 'options',
+        options: [
+          {
+            name: 'Append',
+            value: 'append',
+            description: 'Add the files one after another',
+          },
+          {
+            name: 'Interleave Duplex Scan',
+            value: 'interleave',
+            description:
+              'Take the first PDF as front sides and the second as back sides and alternate their pages',
+          },
+        ],
+        default: 'append',
+        description: 'How the pages of the files are put together',
+      },
+      {
+        displayName: 'Reverse Back Sides',
+        name: 'reverseBackPages',
+        type: 'boolean',
+        default: false,
+        description:
+          'Whether the back sides were scanned last to first, as when the flipped stack is fed into the scanner again',
+      },
       {
         displayName: 'Remove Blank Pages',
         name: 'removeBlankPages',
         type: 'boolean',
         default: false,
-        description: 'Whether to remove blank pages during merge',
+        description: 'Whether to render every page and leave out the ones without ink',
+      },
+      {
+        displayName: 'Blank Page Threshold (%)',
+        name: 'blankPageThreshold',
+        type: 'number',
+        typeOptions: {
+          minValue: 0,
+          maxValue: 100,
+          numberPrecision: 3,
+        },
+        default: 0.01,
+        description:
+          'Pages whose ink covers at most this share of the page are blank, when removing blank pages',
       },
       {
         displayName: 'Compress',
@@ -554,6 +2006,38 @@ export const dantePdfDescription: INodeProperties[] = [
         default: false,
         description: 'Whether to compress the merged PDF',
       },
+      {
+        displayName: 'Flatten',
+        name: 'flatten',
+        type: 'boolean',
+        default: false,
+        description:
+          'Whether to draw the form fields and annotations of every file into the pages so they cannot be edited',
+      },
+      {
+        displayName: 'Add Bookmarks',
+        name: 'bookmarks',
+        type: 'boolean',
+        default: false,
+        description: 'Whether to add a bookmark pointing at the first page of every merged file',
+      },
+      {
+        displayName: 'Bookmark Title',
+        name: 'bookmarkTitle',
+        type: 'string',
+        default: '',
+        placeholder: '={{ $json.title }}',
+        description:
+          'Title of the bookmark of every file, evaluated for the item the file comes from. Defaults to the file name without extension.',
+      },
+      {
+        displayName: 'Keep Source Bookmarks',
+        name: 'keepSourceBookmarks',
+        type: 'boolean',
+        default: false,
+        description:
+          'Whether to keep the bookmarks of every file. With Add Bookmarks they are nested under the bookmark of their file.',
+      },
       {
         displayName: 'Remove Metadata',
         name: 'removeMetadata',
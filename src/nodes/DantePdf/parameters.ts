@@ -0,0 +1,239 @@
+import { IExecuteFunctions } from 'n8n-workflow';
+
+import {
+  DocumentProperties,
+  MergeOptions,
+  N8nAdditionalOptions,
+  N8nMergeOptions,
+  N8nSecurityOptions,
+  N8nTemplateOptions,
+  PdfSecurityOptions,
+  TemplateOptions,
+  WatermarkOptions,
+} from '../../types';
+import { BrowserPool } from '../../utils/browserPool';
+
+/**
+ * Read the output encryption settings, or undefined if no password is set
+ */
+export function getSecurityOptions(
+  context: IExecuteFunctions,
+  itemIndex: number
+): PdfSecurityOptions | undefined {
+  const securityOptions = context.getNodeParameter(
+    'securityOptions',
+    itemIndex,
+    {}
+  ) as N8nSecurityOptions;
+
+  if (!securityOptions.userPassword && !securityOptions.ownerPassword) {
+    return undefined;
+  }
+
+  return {
+    userPassword: securityOptions.userPassword || '',
+    ownerPassword: securityOptions.ownerPassword || '',
+    algorithm: securityOptions.algorithm || 'aes256',
+    permissions: {
+      printing: securityOptions.allowPrinting !== false,
+      modifying: securityOptions.allowModifying !== false,
+      copying: securityOptions.allowCopying !== false,
+      annotating: securityOptions.allowAnnotating !== false,
+    },
+  };
+}
+
+/**
+ * Read the security settings and document properties applied to a PDF the
+ * node produces, leaving out the ones that are not set
+ */
+export function getOutputOptions(
+  context: IExecuteFunctions,
+  itemIndex: number
+): { security?: PdfSecurityOptions; documentProperties?: DocumentProperties } {
+  const security = getSecurityOptions(context, itemIndex);
+  const documentProperties = getDocumentProperties(context, itemIndex);
+
+  return {
+    ...(security && { security }),
+    ...(documentProperties && { documentProperties }),
+  };
+}
+
+/**
+ * Read the password for encrypted input PDFs from a parameter or credential
+ */
+export async function getInputPassword(
+  context: IExecuteFunctions,
+  itemIndex: number
+): Promise<string | undefined> {
+  const passwordSource = context.getNodeParameter('passwordSource', itemIndex, 'none') as string;
+
+  switch (passwordSource) {
+    case 'parameter':
+      return context.getNodeParameter('pdfPassword', itemIndex, '') as string;
+    case 'credential': {
+      const credentials = await context.getCredentials('dantePdfPasswordApi');
+      return (credentials.password as string) || '';
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Read the watermark settings, or undefined if no watermark is selected
+ */
+export function getWatermarkOptions(
+  context: IExecuteFunctions,
+  itemIndex: number
+): WatermarkOptions | undefined {
+  const watermarkType = context.getNodeParameter('watermarkType', itemIndex, 'none') as string;
+  if (watermarkType === 'none') {
+    return undefined;
+  }
+
+  const watermark: WatermarkOptions = {
+    ...(context.getNodeParameter('watermarkOptions', itemIndex, {}) as WatermarkOptions),
+  };
+
+  if (watermarkType === 'image') {
+    const propertyName = context.getNodeParameter('watermarkImageProperty', itemIndex) as string;
+    const binaryData = context.helpers.assertBinaryData(itemIndex, propertyName);
+    watermark.image = {
+      data: Buffer.from(binaryData.data, 'base64'),
+      mimeType: binaryData.mimeType,
+    };
+  } else {
+    watermark.text = context.getNodeParameter('watermarkText', itemIndex) as string;
+  }
+
+  return watermark;
+}
+
+/**
+ * Read the document properties from the additional options, or undefined if none are set
+ */
+export function getDocumentProperties(
+  context: IExecuteFunctions,
+  itemIndex: number
+): DocumentProperties | undefined {
+  const additionalOptions = context.getNodeParameter(
+    'additionalOptions',
+    itemIndex,
+    {}
+  ) as N8nAdditionalOptions;
+  const { customProperties, ...standard } = additionalOptions.documentProperties || {};
+
+  const properties: DocumentProperties = {};
+  for (const key of ['title', 'author', 'subject', 'keywords', 'creator', 'language'] as const) {
+    if (standard[key]) {
+      properties[key] = String(standard[key]);
+    }
+  }
+
+  const custom: { [key: string]: string } = {};
+  for (const property of customProperties?.property || []) {
+    if (property.key) {
+      custom[property.key.trim()] = String(property.value ?? '');
+    }
+  }
+  if (Object.keys(custom).length > 0) {
+    properties.custom = custom;
+  }
+
+  return Object.keys(properties).length > 0 ? properties : undefined;
+}
+
+/**
+ * Apply the shared browser limits from the first item's options
+ */
+export function configureBrowserPool(context: IExecuteFunctions): void {
+  const additionalOptions = context.getNodeParameter(
+    'additionalOptions',
+    0,
+    {}
+  ) as N8nAdditionalOptions;
+
+  BrowserPool.getInstance().configure({
+    ...(additionalOptions.maxBrowserPages !== undefined && {
+      maxPages: additionalOptions.maxBrowserPages,
+    }),
+    ...(additionalOptions.browserIdleTimeout !== undefined && {
+      idleTimeout: additionalOptions.browserIdleTimeout * 1000,
+    }),
+  });
+}
+
+/**
+ * Read the merge settings, with the page ranges keyed by file name
+ */
+export function getMergeOptions(context: IExecuteFunctions, itemIndex: number): MergeOptions {
+  const { pageRanges, ...mergeOptions } = context.getNodeParameter(
+    'mergeOptions',
+    itemIndex,
+    {}
+  ) as N8nMergeOptions;
+  // Evaluated for the item of every PDF when merging
+  delete mergeOptions.bookmarkTitle;
+
+  const ranges: { [fileName: string]: string } = {};
+  for (const range of pageRanges?.ranges || []) {
+    if (range.fileName && range.pages) {
+      ranges[range.fileName] = range.pages;
+    }
+  }
+
+  return {
+    ...mergeOptions,
+    ...(Object.keys(ranges).length > 0 && { pageRanges: ranges }),
+  };
+}
+
+/**
+ * Read the template settings and bind the JSON of the input item as data
+ */
+export function getTemplateOptions(context: IExecuteFunctions, itemIndex: number): TemplateOptions {
+  const templateOptions = context.getNodeParameter(
+    'templateOptions',
+    itemIndex,
+    {}
+  ) as N8nTemplateOptions;
+
+  const partials: { [name: string]: string } = {};
+  for (const partial of templateOptions.partials?.partial || []) {
+    if (partial.name) {
+      partials[partial.name] = partial.template || '';
+    }
+  }
+
+  return {
+    templateFormat: templateOptions.templateFormat || 'html',
+    data: context.getInputData()[itemIndex]?.json || {},
+    partials,
+    ...(templateOptions.locale && { locale: templateOptions.locale }),
+    ...(templateOptions.currency && { currency: templateOptions.currency }),
+    ...(templateOptions.timeZone && { timeZone: templateOptions.timeZone }),
+    ...(templateOptions.theme && { theme: templateOptions.theme }),
+  };
+}
+
+/**
+ * Read the mail merge settings of a template. Mail merge is off when no
+ * records field is set.
+ */
+export function getMailMergeOptions(
+  context: IExecuteFunctions,
+  itemIndex: number
+): { recordsField: string; fileName: string } {
+  const templateOptions = context.getNodeParameter(
+    'templateOptions',
+    itemIndex,
+    {}
+  ) as N8nTemplateOptions;
+
+  return {
+    recordsField: (templateOptions.recordsField || '').trim(),
+    fileName: templateOptions.fileName || '',
+  };
+}
@@ -0,0 +1,642 @@
+import { IBinaryData, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+
+import {
+  PdfBlankPageRemover,
+  PdfDecryptor,
+  PdfFlattener,
+  PdfPageEditor,
+  PdfPageInserter,
+  PdfFormFiller,
+  PdfFormReader,
+  PdfInspector,
+  PdfRasterizer,
+  PdfSplitter,
+  PdfTextExtractor,
+  PdfWatermarker,
+} from '../../converters';
+import {
+  ConversionInput,
+  ConversionType,
+  DecryptOptions,
+  EditPagesOptions,
+  ExtractTextOptions,
+  FillFormOptions,
+  FlattenPdfOptions,
+  InsertPagesOptions,
+  InspectOptions,
+  ListFormFieldsOptions,
+  N8nAdditionalOptions,
+  PageEditInstruction,
+  PdfToImageOptions,
+  RemoveBlankPagesOptions,
+  RenderedPage,
+  SplitOptions,
+  WatermarkPdfOptions,
+} from '../../types';
+import { getInputPassword, getOutputOptions, getWatermarkOptions } from './parameters';
+
+/**
+ * Conversion types that take an existing PDF from binary data as input
+ */
+export const PDF_OPERATIONS: ConversionType[] = [
+  'splitPdf',
+  'decryptPdf',
+  'watermarkPdf',
+  'extractText',
+  'pdfToImage',
+  'inspectPdf',
+  'fillPdfForm',
+  'listFormFields',
+  'flattenPdf',
+  'editPages',
+  'insertPages',
+  'removeBlankPages',
+];
+
+export function isPdfOperation(conversionType: ConversionType): boolean {
+  return PDF_OPERATIONS.includes(conversionType);
+}
+
+/**
+ * Run an operation on the PDF of a single input item. Operations may emit
+ * any number of output items.
+ */
+export async function executePdfOperation(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  conversionType: ConversionType,
+  additionalOptions: N8nAdditionalOptions
+): Promise<INodeExecutionData[]> {
+  const outputPropertyName = additionalOptions.outputPropertyName || 'data';
+  const file = getPdfFile(context, itemIndex);
+
+  switch (conversionType) {
+    case 'splitPdf':
+      return splitPdf(context, itemIndex, file, outputPropertyName);
+    case 'decryptPdf':
+      return decryptPdf(context, itemIndex, file, outputPropertyName);
+    case 'watermarkPdf':
+      return watermarkPdf(context, itemIndex, file, outputPropertyName);
+    case 'extractText':
+      return extractText(context, itemIndex, file);
+    case 'pdfToImage':
+      return pdfToImage(context, itemIndex, file, outputPropertyName);
+    case 'inspectPdf':
+      return inspectPdf(context, itemIndex, file);
+    case 'fillPdfForm':
+      return fillPdfForm(context, itemIndex, file, outputPropertyName);
+    case 'listFormFields':
+      return listFormFields(context, itemIndex, file);
+    case 'flattenPdf':
+      return flattenPdf(context, itemIndex, file, outputPropertyName);
+    case 'editPages':
+      return editPages(context, itemIndex, file, outputPropertyName);
+    case 'insertPages':
+      return insertPages(context, itemIndex, file, outputPropertyName);
+    case 'removeBlankPages':
+      return removeBlankPages(context, itemIndex, file, outputPropertyName);
+    default:
+      throw new Error(`Unsupported PDF operation: ${conversionType}`);
+  }
+}
+
+function getPdfFile(
+  context: IExecuteFunctions,
+  itemIndex: number
+): NonNullable<ConversionInput['file']> {
+  const binaryPropertyName = context.getNodeParameter('binaryPropertyName', itemIndex) as string;
+  const binaryData = context.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+
+  return {
+    data: Buffer.from(binaryData.data, 'base64'),
+    mimeType: binaryData.mimeType,
+    fileName: binaryData.fileName || 'document.pdf',
+  };
+}
+
+async function splitPdf(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  file: NonNullable<ConversionInput['file']>,
+  outputPropertyName: string
+): Promise<INodeExecutionData[]> {
+  const options: SplitOptions = {
+    ...getOutputOptions(context, itemIndex),
+    mode: context.getNodeParameter('splitMode', itemIndex) as NonNullable<SplitOptions['mode']>,
+  };
+
+  if (options.mode === 'ranges') {
+    options.ranges = context.getNodeParameter('splitRanges', itemIndex) as string;
+  } else if (options.mode === 'chunkSize') {
+    options.chunkSize = context.getNodeParameter('chunkSize', itemIndex) as number;
+  }
+
+  const password = await getInputPassword(context, itemIndex);
+  if (password !== undefined) {
+    options.password = password;
+  }
+
+  const chunks = await new PdfSplitter().execute({ file, options });
+  const baseName = stripExtension(file.fileName);
+
+  return chunks.map((chunk, index) => ({
+    json: {
+      conversionType: 'splitPdf',
+      sourceFileName: file.fileName,
+      chunk: index + 1,
+      totalChunks: chunks.length,
+      pages: chunk.pages,
+      pageCount: chunk.pages.length,
+      ...(chunk.title !== undefined && { title: chunk.title }),
+    },
+    binary: {
+      [outputPropertyName]: {
+        data: chunk.pdf.toString('base64'),
+        mimeType: 'application/pdf',
+        fileName: `${baseName}_part${index + 1}.pdf`,
+        fileExtension: 'pdf',
+      },
+    },
+    pairedItem: { item: itemIndex },
+  }));
+}
+
+async function decryptPdf(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  file: NonNullable<ConversionInput['file']>,
+  outputPropertyName: string
+): Promise<INodeExecutionData[]> {
+  // Re-encrypting with new settings allows changing the password in one step
+  const options: DecryptOptions = { ...getOutputOptions(context, itemIndex) };
+
+  const password = await getInputPassword(context, itemIndex);
+  if (password !== undefined) {
+    options.password = password;
+  }
+
+  const result = await new PdfDecryptor().execute({ file, options });
+
+  return [
+    {
+      json: {
+        conversionType: 'decryptPdf',
+        sourceFileName: file.fileName,
+        metadata: result.metadata,
+      },
+      binary: {
+        [outputPropertyName]: {
+          data: result.pdf.toString('base64'),
+          mimeType: 'application/pdf',
+          fileName: `${stripExtension(file.fileName)}_unlocked.pdf`,
+          fileExtension: 'pdf',
+        },
+      },
+      pairedItem: { item: itemIndex },
+    },
+  ];
+}
+
+async function watermarkPdf(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  file: NonNullable<ConversionInput['file']>,
+  outputPropertyName: string
+): Promise<INodeExecutionData[]> {
+  const options: WatermarkPdfOptions = {
+    ...getWatermarkOptions(context, itemIndex),
+    ...getOutputOptions(context, itemIndex),
+  };
+
+  const result = await new PdfWatermarker().execute({ file, options });
+
+  return [
+    {
+      json: {
+        conversionType: 'watermarkPdf',
+        sourceFileName: file.fileName,
+        metadata: result.metadata,
+      },
+      binary: {
+        [outputPropertyName]: {
+          data: result.pdf.toString('base64'),
+          mimeType: 'application/pdf',
+          fileName: `${stripExtension(file.fileName)}_watermarked.pdf`,
+          fileExtension: 'pdf',
+        },
+      },
+      pairedItem: { item: itemIndex },
+    },
+  ];
+}
+
+async function fillPdfForm(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  file: NonNullable<ConversionInput['file']>,
+  outputPropertyName: string
+): Promise<INodeExecutionData[]> {
+  const formOptions = context.getNodeParameter('formOptions', itemIndex, {}) as {
+    flatten?: boolean;
+    ignoreUnknownFields?: boolean;
+  };
+  const options: FillFormOptions = {
+    ...getOutputOptions(context, itemIndex),
+    flatten: !!formOptions.flatten,
+    ignoreUnknownFields: !!formOptions.ignoreUnknownFields,
+  };
+
+  const dataSource = context.getNodeParameter('formDataSource', itemIndex, 'mapping') as string;
+  if (dataSource === 'json') {
+    options.values = { ...(context.getInputData()[itemIndex]?.json || {}) };
+    options.ignoreUnknownFields = true;
+  } else {
+    const formFields = context.getNodeParameter('formFields', itemIndex, {}) as {
+      field?: Array<{ name: string; value: string }>;
+    };
+    options.values = {};
+    for (const field of formFields.field || []) {
+      if (field.name) {
+        options.values[field.name] = field.value;
+      }
+    }
+  }
+
+  const password = await getInputPassword(context, itemIndex);
+  if (password !== undefined) {
+    options.password = password;
+  }
+
+  const result = await new PdfFormFiller().execute({ file, options });
+  const { form, ...metadata } = result.metadata;
+
+  return [
+    {
+      json: {
+        conversionType: 'fillPdfForm',
+        sourceFileName: file.fileName,
+        flattened: options.flatten,
+        filledFields: form?.filled ?? [],
+        ignoredFields: form?.ignored ?? [],
+        metadata,
+      },
+      binary: {
+        [outputPropertyName]: {
+          data: result.pdf.toString('base64'),
+          mimeType: 'application/pdf',
+          fileName: `${stripExtension(file.fileName)}_filled.pdf`,
+          fileExtension: 'pdf',
+        },
+      },
+      pairedItem: { item: itemIndex },
+    },
+  ];
+}
+
+async function flattenPdf(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  file: NonNullable<ConversionInput['file']>,
+  outputPropertyName: string
+): Promise<INodeExecutionData[]> {
+  const flattenOptions = context.getNodeParameter('flattenOptions', itemIndex, {}) as {
+    forms?: boolean;
+    annotations?: boolean;
+  };
+  const options: FlattenPdfOptions = {
+    ...getOutputOptions(context, itemIndex),
+    forms: flattenOptions.forms !== false,
+    annotations: flattenOptions.annotations !== false,
+  };
+
+  const password = await getInputPassword(context, itemIndex);
+  if (password !== undefined) {
+    options.password = password;
+  }
+
+  const result = await new PdfFlattener().execute({ file, options });
+
+  return [
+    {
+      json: {
+        conversionType: 'flattenPdf',
+        sourceFileName: file.fileName,
+        forms: options.forms,
+        annotations: options.annotations,
+        metadata: result.metadata,
+      },
+      binary: {
+        [outputPropertyName]: {
+          data: result.pdf.toString('base64'),
+          mimeType: 'application/pdf',
+          fileName: `${stripExtension(file.fileName)}_flattened.pdf`,
+          fileExtension: 'pdf',
+        },
+      },
+      pairedItem: { item: itemIndex },
+    },
+  ];
+}
+
+async function editPages(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  file: NonNullable<ConversionInput['file']>,
+  outputPropertyName: string
+): Promise<INodeExecutionData[]> {
+  const pageInstructions = context.getNodeParameter('pageInstructions', itemIndex, {}) as {
+    instruction?: PageEditInstruction[];
+  };
+  const options: EditPagesOptions = {
+    ...getOutputOptions(context, itemIndex),
+    instructions: pageInstructions.instruction || [],
+  };
+
+  const password = await getInputPassword(context, itemIndex);
+  if (password !== undefined) {
+    options.password = password;
+  }
+
+  const result = await new PdfPageEditor().execute({ file, options });
+
+  return [
+    {
+      json: {
+        conversionType: 'editPages',
+        sourceFileName: file.fileName,
+        pageCount: result.pages.length,
+        pages: result.pages,
+      },
+      binary: {
+        [outputPropertyName]: {
+          data: result.pdf.toString('base64'),
+          mimeType: 'application/pdf',
+          fileName: `${stripExtension(file.fileName)}_edited.pdf`,
+          fileExtension: 'pdf',
+        },
+      },
+      pairedItem: { item: itemIndex },
+    },
+  ];
+}
+
+async function insertPages(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  file: NonNullable<ConversionInput['file']>,
+  outputPropertyName: string
+): Promise<INodeExecutionData[]> {
+  const insertPropertyName = context.getNodeParameter(
+    'insertBinaryPropertyName',
+    itemIndex
+  ) as string;
+  const insertData = context.helpers.assertBinaryData(itemIndex, insertPropertyName);
+  const insertFile = {
+    data: Buffer.from(insertData.data, 'base64'),
+    mimeType: insertData.mimeType,
+    fileName: insertData.fileName || 'insert.pdf',
+  };
+
+  const options: InsertPagesOptions = {
+    ...getOutputOptions(context, itemIndex),
+    position: context.getNodeParameter('insertPosition', itemIndex, 'after') as NonNullable<
+      InsertPagesOptions['position']
+    >,
+    targetPage: context.getNodeParameter('insertAtPage', itemIndex, 1) as number,
+    pages: context.getNodeParameter('insertPageRange', itemIndex, '') as string,
+  };
+  if (options.position === 'every') {
+    options.interval = context.getNodeParameter('insertInterval', itemIndex, 1) as number;
+  }
+
+  const password = await getInputPassword(context, itemIndex);
+  if (password !== undefined) {
+    options.password = password;
+  }
+
+  const result = await new PdfPageInserter().execute({ files: [file, insertFile], options });
+
+  return [
+    {
+      json: {
+        conversionType: 'insertPages',
+        sourceFileName: file.fileName,
+        insertedFileName: insertFile.fileName,
+        metadata: result.metadata,
+      },
+      binary: {
+        [outputPropertyName]: {
+          data: result.pdf.toString('base64'),
+          mimeType: 'application/pdf',
+          fileName: `${stripExtension(file.fileName)}_inserted.pdf`,
+          fileExtension: 'pdf',
+        },
+      },
+      pairedItem: { item: itemIndex },
+    },
+  ];
+}
+
+async function removeBlankPages(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  file: NonNullable<ConversionInput['file']>,
+  outputPropertyName: string
+): Promise<INodeExecutionData[]> {
+  const options: RemoveBlankPagesOptions = {
+    ...getOutputOptions(context, itemIndex),
+    threshold: context.getNodeParameter('blankPageThreshold', itemIndex, 0.01) as number,
+  };
+
+  const password = await getInputPassword(context, itemIndex);
+  if (password !== undefined) {
+    options.password = password;
+  }
+
+  const result = await new PdfBlankPageRemover().execute({ file, options });
+
+  return [
+    {
+      json: {
+        conversionType: 'removeBlankPages',
+        sourceFileName: file.fileName,
+        pageCount: result.pages.length,
+        pages: result.pages,
+        removedPages: result.removed,
+      },
+      binary: {
+        [outputPropertyName]: {
+          data: result.pdf.toString('base64'),
+          mimeType: 'application/pdf',
+          fileName: `${stripExtension(file.fileName)}_cleaned.pdf`,
+          fileExtension: 'pdf',
+        },
+      },
+      pairedItem: { item: itemIndex },
+    },
+  ];
+}
+
+async function extractText(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  file: NonNullable<ConversionInput['file']>
+): Promise<INodeExecutionData[]> {
+  const options: ExtractTextOptions = {
+    pages: context.getNodeParameter('pageRange', itemIndex, '') as string,
+  };
+
+  const password = await getInputPassword(context, itemIndex);
+  if (password !== undefined) {
+    options.password = password;
+  }
+
+  const result = await new PdfTextExtractor().execute({ file, options });
+
+  return [
+    {
+      json: {
+        conversionType: 'extractText',
+        sourceFileName: file.fileName,
+        totalPages: result.totalPages,
+        pageCount: result.pages.length,
+        pages: result.pages,
+        text: result.text,
+      },
+      pairedItem: { item: itemIndex },
+    },
+  ];
+}
+
+async function pdfToImage(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  file: NonNullable<ConversionInput['file']>,
+  outputPropertyName: string
+): Promise<INodeExecutionData[]> {
+  const options: PdfToImageOptions = {
+    pages: context.getNodeParameter('pageRange', itemIndex, '') as string,
+    format: context.getNodeParameter('imageFormat', itemIndex, 'png') as NonNullable<
+      PdfToImageOptions['format']
+    >,
+    dpi: context.getNodeParameter('dpi', itemIndex, 150) as number,
+  };
+
+  if (options.format !== 'png') {
+    options.quality = context.getNodeParameter('imageQuality', itemIndex, 90) as number;
+  }
+
+  const password = await getInputPassword(context, itemIndex);
+  if (password !== undefined) {
+    options.password = password;
+  }
+
+  const images = await new PdfRasterizer().execute({ file, options });
+  const outputMode = context.getNodeParameter('imageOutputMode', itemIndex, 'itemPerPage');
+  const baseName = stripExtension(file.fileName);
+
+  const toBinary = (image: RenderedPage): IBinaryData => ({
+    data: image.data.toString('base64'),
+    mimeType: image.mimeType,
+    fileName: `${baseName}_page${image.number}.${image.extension}`,
+    fileExtension: image.extension,
+  });
+
+  if (outputMode === 'binaryPerPage') {
+    return [
+      {
+        json: {
+          conversionType: 'pdfToImage',
+          sourceFileName: file.fileName,
+          pages: images.map(image => ({
+            number: image.number,
+            width: image.width,
+            height: image.height,
+            binaryProperty: `${outputPropertyName}_${image.number}`,
+          })),
+        },
+        binary: Object.fromEntries(
+          images.map(image => [`${outputPropertyName}_${image.number}`, toBinary(image)])
+        ),
+        pairedItem: { item: itemIndex },
+      },
+    ];
+  }
+
+  return images.map(image => ({
+    json: {
+      conversionType: 'pdfToImage',
+      sourceFileName: file.fileName,
+      page: image.number,
+      width: image.width,
+      height: image.height,
+    },
+    binary: {
+      [outputPropertyName]: toBinary(image),
+    },
+    pairedItem: { item: itemIndex },
+  }));
+}
+
+async function inspectPdf(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  file: NonNullable<ConversionInput['file']>
+): Promise<INodeExecutionData[]> {
+  const options: InspectOptions = {};
+
+  const password = await getInputPassword(context, itemIndex);
+  if (password !== undefined) {
+    options.password = password;
+  }
+
+  const inspection = await new PdfInspector().execute({ file, options });
+  const binary = context.getInputData()[itemIndex]?.binary;
+
+  return [
+    {
+      json: {
+        conversionType: 'inspectPdf',
+        sourceFileName: file.fileName,
+        ...inspection,
+      },
+      // Keep the PDF so the workflow can branch on the result and continue with it
+      ...(binary && { binary }),
+      pairedItem: { item: itemIndex },
+    },
+  ];
+}
+
+async function listFormFields(
+  context: IExecuteFunctions,
+  itemIndex: number,
+  file: NonNullable<ConversionInput['file']>
+): Promise<INodeExecutionData[]> {
+  const options: ListFormFieldsOptions = {};
+
+  const password = await getInputPassword(context, itemIndex);
+  if (password !== undefined) {
+    options.password = password;
+  }
+
+  const fields = await new PdfFormReader().execute({ file, options });
+  const binary = context.getInputData()[itemIndex]?.binary;
+
+  return [
+    {
+      json: {
+        conversionType: 'listFormFields',
+        sourceFileName: file.fileName,
+        fieldCount: fields.length,
+        fields,
+      },
+      // Keep the PDF so it can be filled once the fields are checked
+      ...(binary && { binary }),
+      pairedItem: { item: itemIndex },
+    },
+  ];
+}
+
+function stripExtension(fileName: string): string {
+  return fileName.replace(/\.pdf$/i, '') || 'document';
+}
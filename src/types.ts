@@ -21,19 +21,95 @@ export interface ConversionResult {
     pages?: number;
     size: number;
     format?: string;
+    pageSize?: {
+      width: number;
+      height: number;
+    };
+    hash?: string;
+    /** Validation of the output, when PDF/A was requested */
+    pdfa?: PdfAReport;
+    /** Pages left out as blank, when blank pages were removed */
+    removedPages?: BlankPage[];
+    /** Fields that were set and names that were skipped, when a form was filled */
+    form?: FillFormReport;
     generatedAt: string;
     processingTime: number;
   };
 }
 
+export interface PdfAReport {
+  conformance: 'PDF/A-2b';
+  /** Whether the output passed every check */
+  compliant: boolean;
+  /** Requirements the output does not meet */
+  issues: string[];
+  /** Content that could not be verified, e.g. attachments that must be PDF/A themselves */
+  warnings: string[];
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
 }
 
+export interface PdfPermissions {
+  printing?: boolean;
+  modifying?: boolean;
+  copying?: boolean;
+  annotating?: boolean;
+}
+
+export interface PdfSecurityOptions {
+  userPassword?: string;
+  ownerPassword?: string;
+  algorithm?: 'aes128' | 'aes256';
+  permissions?: PdfPermissions;
+}
+
+export type WatermarkPosition =
+  | 'center'
+  | 'topLeft'
+  | 'topCenter'
+  | 'topRight'
+  | 'bottomLeft'
+  | 'bottomCenter'
+  | 'bottomRight'
+  | 'tiled';
+
+export interface WatermarkOptions {
+  text?: string;
+  image?: {
+    data: Buffer;
+    mimeType: string;
+  };
+  opacity?: number;
+  rotation?: number;
+  position?: WatermarkPosition;
+  fontSize?: number;
+  color?: string;
+  imageScale?: number;
+  margin?: number;
+  pages?: string;
+}
+
+export interface DocumentProperties {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  language?: string;
+  custom?: { [key: string]: string };
+}
+
 export interface BaseOptions {
   format?: 'A4' | 'A3' | 'A5' | 'Letter' | 'Legal' | 'Tabloid';
   landscape?: boolean;
+  security?: PdfSecurityOptions;
+  watermark?: WatermarkOptions;
+  documentProperties?: DocumentProperties;
+  /** Produce PDF/A-2b for archiving. Cannot be combined with password protection. */
+  pdfa?: boolean;
 }
 
 export interface MarkdownOptions extends BaseOptions {
@@ -83,6 +159,21 @@ export interface HtmlOptions extends BaseOptions {
   };
 }
 
+export interface TemplateOptions extends HtmlOptions {
+  /** Language of the template. Markdown is rendered to HTML after binding. */
+  templateFormat?: 'html' | 'markdown';
+  /** Data bound into the template, normally the JSON of the input item */
+  data?: { [key: string]: unknown };
+  /** Extra values available in the template as {{@name}} */
+  variables?: { [name: string]: unknown };
+  partials?: { [name: string]: string };
+  locale?: string;
+  currency?: string;
+  timeZone?: string;
+  /** Theme for Markdown templates */
+  theme?: NonNullable<MarkdownOptions['theme']>;
+}
+
 export interface ImageOptions extends BaseOptions {
   fit?: 'contain' | 'cover' | 'fill' | 'scale-down';
   position?: 'center' | 'top' | 'bottom';
@@ -108,12 +199,288 @@ export interface MergeOptions {
   removeBlankPages?: boolean;
   compress?: boolean;
   removeMetadata?: boolean;
+  /** Append the files one after another, or interleave two scans as front and back sides */
+  mode?: 'append' | 'interleave';
+  /** Take the back sides last to first (interleave) */
+  reverseBackPages?: boolean;
+  password?: string;
+  permissions?: PdfPermissions;
+  security?: PdfSecurityOptions;
+  inputPassword?: string;
+  documentProperties?: DocumentProperties;
+  /** Draw form fields and annotations of every source into the page content */
+  flatten?: boolean;
+  pdfa?: boolean;
+  /** Add a top-level bookmark pointing at the first page of every file */
+  bookmarks?: boolean;
+  /** Bookmark titles by file position, defaulting to the file name */
+  titles?: string[];
+  /** Keep the bookmarks of every file, nested under its own bookmark if there is one */
+  keepSourceBookmarks?: boolean;
+  /** Highest ink coverage in percent for a page to count as blank (default 0.01) */
+  blankPageThreshold?: number;
+}
+
+export interface CombineOptions {
+  /** What goes between two items. Every item always starts on a new page. */
+  separator?: 'pageBreak' | 'blankPage';
+  /** Add a bookmark pointing at the first page of every item */
+  bookmarks?: boolean;
+  /** Bookmark titles by file position, defaulting to the file name */
+  titles?: string[];
+  security?: PdfSecurityOptions;
+  documentProperties?: DocumentProperties;
+  pdfa?: boolean;
+}
+
+export type FormFieldType =
+  | 'text'
+  | 'checkbox'
+  | 'radio'
+  | 'dropdown'
+  | 'list'
+  | 'button'
+  | 'signature'
+  | 'unknown';
+
+export interface ListFormFieldsOptions {
+  password?: string;
+}
+
+export interface FormFieldWidget {
+  /** 1-based page number, or null if the widget is not placed on a page */
+  page: number | null;
+  /** Position in points from the bottom-left corner of the page */
+  rect: { x: number; y: number; width: number; height: number };
+}
+
+export interface FormFieldInfo {
+  name: string;
+  type: FormFieldType;
+  value: string | string[] | boolean | null;
+  options?: string[];
+  required: boolean;
+  readOnly: boolean;
+  maxLength?: number;
+  multiline?: boolean;
+  multiSelect?: boolean;
+  /** Page and position of the first widget */
+  page: number | null;
+  rect: FormFieldWidget['rect'] | null;
+  /** Every place the field appears (radio buttons have one per option) */
+  widgets: FormFieldWidget[];
+}
+
+export interface FillFormOptions {
+  /** Field values by full field name */
+  values?: { [name: string]: unknown };
+  /** Skip names that don't match a field instead of failing */
+  ignoreUnknownFields?: boolean;
+  flatten?: boolean;
+  password?: string;
+  security?: PdfSecurityOptions;
+  documentProperties?: DocumentProperties;
+}
+
+export interface FillFormReport {
+  /** Names of the fields that were set */
+  filled: string[];
+  /** Names that don't match a fillable field, or give a text field an object or array */
+  ignored: string[];
+}
+
+export interface FlattenPdfOptions {
+  /** Draw form fields into the page content and remove the form (default true) */
+  forms?: boolean;
+  /** Draw comments, highlights, stamps, ... into the page content (default true) */
+  annotations?: boolean;
+  password?: string;
+  security?: PdfSecurityOptions;
+  documentProperties?: DocumentProperties;
+}
+
+export interface DecryptOptions {
+  password?: string;
+  security?: PdfSecurityOptions;
+  documentProperties?: DocumentProperties;
+}
+
+export interface WatermarkPdfOptions extends WatermarkOptions {
+  security?: PdfSecurityOptions;
+  documentProperties?: DocumentProperties;
+}
+
+export interface ExtractTextOptions {
+  pages?: string;
+  password?: string;
+}
+
+export interface PageText {
+  number: number;
+  text: string;
+}
+
+export interface ExtractTextResult {
+  totalPages: number;
+  pages: PageText[];
+  text: string;
+}
+
+export interface PdfToImageOptions {
+  pages?: string;
+  format?: 'png' | 'jpeg' | 'webp';
+  dpi?: number;
+  quality?: number;
   password?: string;
-  permissions?: {
-    printing?: boolean;
-    modifying?: boolean;
-    copying?: boolean;
+}
+
+export interface RenderedPage {
+  number: number;
+  data: Buffer;
+  mimeType: string;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+export interface InspectOptions {
+  password?: string;
+}
+
+export interface PdfEncryptionInfo {
+  encrypted: boolean;
+  filter?: string;
+  version?: number;
+  revision?: number;
+  keyLength?: number;
+  algorithm?: 'RC4' | 'AES-128' | 'AES-256' | 'unknown';
+  permissions?: PdfPermissions;
+  requiresPassword?: boolean;
+}
+
+export interface PdfPageInfo {
+  number: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  creationDate?: string;
+  modificationDate?: string;
+}
+
+export interface PdfAttachmentInfo {
+  name: string;
+  fileName: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+export interface PdfInspection {
+  version: string;
+  pageCount: number;
+  pages: PdfPageInfo[];
+  info: PdfDocumentInfo;
+  encryption: PdfEncryptionInfo;
+  forms: {
+    hasForm: boolean;
+    fieldCount: number;
+    hasXfa: boolean;
   };
+  attachments: PdfAttachmentInfo[];
+}
+
+export interface SplitOptions {
+  mode?: 'ranges' | 'chunkSize' | 'everyPage' | 'bookmarks';
+  ranges?: string;
+  chunkSize?: number;
+  password?: string;
+  security?: PdfSecurityOptions;
+  documentProperties?: DocumentProperties;
+}
+
+export interface SplitChunk {
+  pdf: Buffer;
+  pages: number[];
+  title?: string;
+}
+
+export type PageEditAction = 'rotate' | 'delete' | 'move' | 'duplicate';
+
+export interface PageEditInstruction {
+  action: PageEditAction;
+  /** Pages of the original document, e.g. "2-4, 7" */
+  pages: string;
+  /** Clockwise rotation in degrees, a multiple of 90 (rotate) */
+  angle?: number;
+  /** Where the pages go (move) */
+  position?: 'start' | 'end' | 'before' | 'after';
+  /** Original page number the pages are moved before or after */
+  targetPage?: number;
+  /** Number of extra copies placed after each page (duplicate, default 1) */
+  copies?: number;
+}
+
+export interface EditPagesOptions {
+  /** Applied in order. Page numbers always refer to the original document. */
+  instructions?: PageEditInstruction[];
+  password?: string;
+  security?: PdfSecurityOptions;
+  documentProperties?: DocumentProperties;
+}
+
+export interface InsertPagesOptions {
+  /** Pages of the inserted PDF, e.g. "1-2" (default all) */
+  pages?: string;
+  /** Insert before or after targetPage, or after targetPage and then every interval pages */
+  position?: 'before' | 'after' | 'every';
+  /** Page of the target PDF, 1-based */
+  targetPage?: number;
+  /** Pages of the target PDF between two insertions (every) */
+  interval?: number;
+  password?: string;
+  security?: PdfSecurityOptions;
+  documentProperties?: DocumentProperties;
+}
+
+export interface EditPagesResult {
+  pdf: Buffer;
+  /** Original page number of every output page */
+  pages: number[];
+}
+
+export interface BlankPage {
+  /** File the page comes from, when several files are processed */
+  fileName?: string;
+  /** Page number in its file, 1-based */
+  page: number;
+  /** Share of the page covered by ink, in percent */
+  coverage: number;
+  /** Why the page counts as blank */
+  reason: string;
+}
+
+export interface RemoveBlankPagesOptions {
+  /** Highest ink coverage in percent for a page to count as blank (default 0.01) */
+  threshold?: number;
+  password?: string;
+  security?: PdfSecurityOptions;
+  documentProperties?: DocumentProperties;
+}
+
+export interface RemoveBlankPagesResult {
+  pdf: Buffer;
+  /** Original page number of every kept page */
+  pages: number[];
+  removed: BlankPage[];
 }
 
 // n8n specific types
@@ -123,7 +490,20 @@ export type ConversionType =
   | 'htmlToPdf'
   | 'imageToPdf'
   | 'docxToPdf'
-  | 'mergePdfs';
+  | 'templateToPdf'
+  | 'mergePdfs'
+  | 'splitPdf'
+  | 'decryptPdf'
+  | 'watermarkPdf'
+  | 'extractText'
+  | 'pdfToImage'
+  | 'inspectPdf'
+  | 'fillPdfForm'
+  | 'listFormFields'
+  | 'flattenPdf'
+  | 'editPages'
+  | 'insertPages'
+  | 'removeBlankPages';
 
 export interface N8nConversionOptions {
   conversionType: ConversionType;
@@ -132,7 +512,51 @@ export interface N8nConversionOptions {
   htmlOptions?: HtmlOptions | undefined;
   imageOptions?: ImageOptions | undefined;
   docsOptions?: DocsOptions | undefined;
+  templateOptions?: TemplateOptions | undefined;
   mergeOptions?: MergeOptions | undefined;
+  splitOptions?: SplitOptions | undefined;
+}
+
+/** Values of the node's Additional Options collection */
+export interface N8nAdditionalOptions {
+  format?: BaseOptions['format'];
+  landscape?: boolean;
+  outputPropertyName?: string;
+  pdfa?: boolean;
+  maxBrowserPages?: number;
+  browserIdleTimeout?: number;
+  documentProperties?: Omit<DocumentProperties, 'custom'> & {
+    customProperties?: { property?: Array<{ key?: string; value?: string }> };
+  };
+}
+
+/** Values of the node's Security Options collection */
+export interface N8nSecurityOptions {
+  userPassword?: string;
+  ownerPassword?: string;
+  algorithm?: PdfSecurityOptions['algorithm'];
+  allowPrinting?: boolean;
+  allowModifying?: boolean;
+  allowCopying?: boolean;
+  allowAnnotating?: boolean;
+}
+
+/** Values of the node's Merge Options collection */
+export interface N8nMergeOptions extends Omit<MergeOptions, 'pageRanges'> {
+  pageRanges?: { ranges?: Array<{ fileName?: string; pages?: string }> };
+  bookmarkTitle?: string;
+}
+
+/** Values of the node's Template Options collection */
+export interface N8nTemplateOptions {
+  templateFormat?: TemplateOptions['templateFormat'];
+  partials?: { partial?: Array<{ name?: string; template?: string }> };
+  recordsField?: string;
+  fileName?: string;
+  locale?: string;
+  currency?: string;
+  timeZone?: string;
+  theme?: TemplateOptions['theme'];
 }
 
 export enum ErrorCode {
@@ -0,0 +1,92 @@
+import sharp from 'sharp';
+import { BlankPage } from '../types';
+import { BrowserPool } from './browserPool';
+import { createError } from './errors';
+import { PdfPageRenderer } from './pdfRenderer';
+
+export interface BlankPageOptions {
+  /** Highest ink coverage in percent for a page to count as blank (default 0.01) */
+  threshold?: number | undefined;
+  password?: string | undefined;
+  /** Zero-based pages to check (default all) */
+  pages?: number[] | undefined;
+}
+
+// A page with nothing but a page number stays below this, a single word doesn't
+export const DEFAULT_BLANK_THRESHOLD = 0.01;
+
+// 144 DPI, so strokes of small text are wide enough to survive the speck filter
+const RENDER_SCALE = 2;
+
+// Grey levels (0 black, 255 white) darker than this are ink. Lighter ones are
+// paper tone, scanner noise and compression artifacts.
+const INK_LEVEL = 200;
+
+/**
+ * Render pages and report the ones whose ink coverage is at or below the
+ * threshold. Rendering catches what the page content doesn't tell, e.g.
+ * scanned empty pages, or a single short line on an otherwise empty page.
+ */
+export async function findBlankPages(
+  data: Buffer,
+  options: BlankPageOptions = {}
+): Promise<BlankPage[]> {
+  const threshold = options.threshold ?? DEFAULT_BLANK_THRESHOLD;
+  if (!(threshold >= 0 && threshold <= 100)) {
+    throw createError.invalidInput('The blank page threshold must be between 0 and 100 percent');
+  }
+
+  return BrowserPool.getInstance().withPage(async page => {
+    const renderer = new PdfPageRenderer(page);
+
+    try {
+      const totalPages = await renderer.open(data, options.password);
+      const indices = options.pages ?? Array.from({ length: totalPages }, (_, i) => i);
+
+      const blankPages: BlankPage[] = [];
+      for (const index of indices) {
+        const coverage = await measureInkCoverage(
+          await renderer.renderPage(index + 1, RENDER_SCALE)
+        );
+        if (coverage <= threshold) {
+          blankPages.push({
+            page: index + 1,
+            coverage,
+            reason: `Ink covers ${coverage}% of the page, at most ${threshold}% counts as blank`,
+          });
+        }
+      }
+
+      return blankPages;
+    } finally {
+      await renderer.close();
+    }
+  });
+}
+
+/**
+ * Share of the image covered by ink, in percent rounded to 3 decimals.
+ * Isolated dark pixels (dust and noise on scans) are filtered out first.
+ */
+export async function measureInkCoverage(image: Buffer): Promise<number> {
+  const { data, info } = await sharp(image)
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .median(3)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixels = info.width * info.height;
+  if (pixels === 0) {
+    return 0;
+  }
+
+  let ink = 0;
+  for (let i = 0; i < data.length; i += info.channels) {
+    if (data[i]! < INK_LEVEL) {
+      ink++;
+    }
+  }
+
+  return Math.round((ink / pixels) * 100000) / 1000;
+}
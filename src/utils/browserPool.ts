@@ -0,0 +1,228 @@
+import { Browser, Page } from 'playwright-core';
+import { BrowserSetup } from './browserSetup';
+import { logger } from './logger';
+
+export interface BrowserPoolOptions {
+  /** Maximum number of pages open at the same time (default 4) */
+  maxPages?: number;
+  /** Close the browser after this many milliseconds without open pages (default 60 s) */
+  idleTimeout?: number;
+}
+
+const DEFAULT_MAX_PAGES = 4;
+const DEFAULT_IDLE_TIMEOUT = 60 * 1000;
+
+/**
+ * A single Chromium shared by all browser-based converters. The browser is
+ * launched on first use, relaunched when it crashes and closed when idle.
+ * Every page gets its own browser context, so pages don't share cookies or
+ * credentials.
+ */
+export class BrowserPool {
+  private static instance: BrowserPool | null = null;
+
+  private readonly logger = logger.child({ service: 'BrowserPool' });
+  private maxPages = DEFAULT_MAX_PAGES;
+  private idleTimeout = DEFAULT_IDLE_TIMEOUT;
+
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private activePages = 0;
+  private waiting: Array<() => void> = [];
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private crashedPages = new WeakSet<Page>();
+
+  static getInstance(): BrowserPool {
+    if (!BrowserPool.instance) {
+      BrowserPool.instance = new BrowserPool();
+    }
+    return BrowserPool.instance;
+  }
+
+  /**
+   * Set the limits of the pool. The browser is shared by every workflow in
+   * the process and the most recent call applies to all of them; limits it
+   * leaves out go back to their defaults. Pages that are already open stay
+   * open when the page limit is lowered.
+   */
+  configure(options: BrowserPoolOptions): void {
+    this.maxPages =
+      options.maxPages !== undefined && options.maxPages >= 1
+        ? Math.floor(options.maxPages)
+        : DEFAULT_MAX_PAGES;
+    this.idleTimeout =
+      options.idleTimeout !== undefined && options.idleTimeout >= 0
+        ? options.idleTimeout
+        : DEFAULT_IDLE_TIMEOUT;
+
+    // A higher limit may free slots for waiting callers
+    this.wakeWaiting();
+
+    // An idle browser closes after the new timeout
+    if (this.idleTimer) {
+      this.scheduleIdleShutdown();
+    }
+  }
+
+  /**
+   * Run a task on a fresh page. If the browser or page crashes during the
+   * task, it is retried once on a relaunched browser.
+   */
+  async withPage<T>(task: (page: Page) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const page = await this.acquirePage();
+      try {
+        return await task(page);
+      } catch (error) {
+        if (attempt === 1 && this.hasCrashed(page)) {
+          this.logger.warn('Browser crashed during a conversion, retrying on a new browser');
+          continue;
+        }
+        throw error;
+      } finally {
+        await this.releasePage(page);
+      }
+    }
+  }
+
+  /**
+   * Get a page, waiting while the maximum number of pages is open.
+   * Every acquired page must be passed to releasePage().
+   */
+  async acquirePage(): Promise<Page> {
+    await this.acquireSlot();
+
+    try {
+      let browser = await this.getBrowser();
+      let page: Page;
+      try {
+        page = await browser.newPage();
+      } catch (error) {
+        if (browser.isConnected()) {
+          throw error;
+        }
+        // The browser died between launch and use
+        browser = await this.getBrowser();
+        page = await browser.newPage();
+      }
+
+      page.on('crash', () => this.crashedPages.add(page));
+      return page;
+    } catch (error) {
+      this.releaseSlot();
+      throw error;
+    }
+  }
+
+  async releasePage(page: Page): Promise<void> {
+    try {
+      if (!page.isClosed()) {
+        // Closing a page from browser.newPage() also closes its context
+        await page.close();
+      }
+    } catch (error) {
+      this.logger.warn('Failed to close page', { error: (error as Error).message });
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Close the browser now. The next conversion launches a new one.
+   */
+  async shutdown(): Promise<void> {
+    this.clearIdleTimer();
+
+    const browser = this.browser;
+    this.browser = null;
+    if (browser) {
+      await browser.close().catch(() => undefined);
+      this.logger.info('Browser closed');
+    }
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.isConnected()) {
+      return this.browser;
+    }
+
+    if (!this.launching) {
+      this.launching = BrowserSetup.createOptimizedBrowser({
+        headless: true,
+        timeout: 30000,
+        useSystemChrome: true,
+      })
+        .then(({ browser }) => {
+          browser.on('disconnected', () => {
+            if (this.browser === browser) {
+              this.logger.warn('Browser disconnected');
+              this.browser = null;
+            }
+          });
+          this.browser = browser;
+          return browser;
+        })
+        .finally(() => {
+          this.launching = null;
+        });
+    }
+
+    return this.launching;
+  }
+
+  private hasCrashed(page: Page): boolean {
+    return this.crashedPages.has(page) || !this.browser?.isConnected();
+  }
+
+  private async acquireSlot(): Promise<void> {
+    this.clearIdleTimer();
+
+    if (this.activePages < this.maxPages) {
+      this.activePages++;
+      return;
+    }
+
+    // The slot is counted by wakeWaiting() before the caller resumes
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    this.activePages--;
+    this.wakeWaiting();
+
+    if (this.activePages === 0) {
+      this.scheduleIdleShutdown();
+    }
+  }
+
+  /**
+   * Hand free slots to waiting callers in the order they arrived
+   */
+  private wakeWaiting(): void {
+    while (this.waiting.length > 0 && this.activePages < this.maxPages) {
+      this.activePages++;
+      this.waiting.shift()!();
+    }
+  }
+
+  private scheduleIdleShutdown(): void {
+    this.clearIdleTimer();
+
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (this.activePages === 0) {
+        this.shutdown().catch(() => undefined);
+      }
+    }, this.idleTimeout);
+
+    // Never keep the process alive just to close an idle browser
+    this.idleTimer.unref();
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { mapWithConcurrency } from './concurrency';
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('keeps the order of the items when tasks finish out of order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20, 0], 4, async (ms, index) => {
+      await delay(ms);
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+  });
+
+  it('never runs more than the limit at the same time', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapWithConcurrency(Array.from({ length: 8 }), 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(5);
+      running--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('runs one task at a time for a limit below one', async () => {
+    const started: number[] = [];
+
+    await mapWithConcurrency([1, 2, 3], 0, async item => {
+      started.push(item);
+      await delay(1);
+      expect(started).toHaveLength(item);
+    });
+
+    expect(started).toEqual([1, 2, 3]);
+  });
+
+  it('throws the first error after the running tasks settle and starts no new ones', async () => {
+    const finished: number[] = [];
+
+    const run = mapWithConcurrency([0, 1, 2, 3, 4], 2, async item => {
+      await delay(item === 0 ? 5 : 20);
+      if (item === 0) {
+        throw new Error('item 0 failed');
+      }
+      finished.push(item);
+    });
+
+    await expect(run).rejects.toThrow('item 0 failed');
+    expect(finished).toEqual([1]);
+  });
+});
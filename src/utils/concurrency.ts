@@ -0,0 +1,36 @@
+/**
+ * Run a task for every item with at most `limit` tasks in flight. Results keep
+ * the order of the items regardless of which task finishes first.
+ *
+ * When a task fails no further tasks are started; the tasks already running
+ * are awaited and the first error is thrown.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+
+  const worker = async (): Promise<void> => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index] as T, index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+  return results;
+}
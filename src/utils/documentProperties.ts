@@ -0,0 +1,70 @@
+import { PDFHexString, PDFName } from 'pdf-lib';
+import { DocumentProperties } from '../types';
+import { createError } from './errors';
+import { loadPdfDocument } from './pdfSecurity';
+import { getInfoDict, writeXmpMetadata } from './xmp';
+
+// Custom keys become both Info dictionary names and XML element names
+const CUSTOM_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+/**
+ * Whether the properties set anything on the document
+ */
+export function hasDocumentProperties(
+  properties?: DocumentProperties
+): properties is DocumentProperties {
+  if (!properties) {
+    return false;
+  }
+  const { custom, ...standard } = properties;
+  return Object.values(standard).some(value => !!value) || Object.keys(custom || {}).length > 0;
+}
+
+/**
+ * Set the document information dictionary and matching XMP metadata
+ */
+export async function applyDocumentProperties(
+  pdf: Buffer,
+  properties: DocumentProperties
+): Promise<Buffer> {
+  const custom = properties.custom || {};
+  for (const key of Object.keys(custom)) {
+    if (!CUSTOM_KEY_PATTERN.test(key)) {
+      throw createError.invalidInput(
+        `Invalid custom property name "${key}". Use letters, digits, "_", "-" and "." only.`
+      );
+    }
+  }
+
+  const document = await loadPdfDocument(pdf);
+
+  if (properties.title) {
+    document.setTitle(properties.title, { showInWindowTitleBar: true });
+  }
+  if (properties.author) {
+    document.setAuthor(properties.author);
+  }
+  if (properties.subject) {
+    document.setSubject(properties.subject);
+  }
+  if (properties.keywords) {
+    // Keep the keywords exactly as entered (pdf-lib joins a list with spaces)
+    document.setKeywords([properties.keywords]);
+  }
+  if (properties.creator) {
+    document.setCreator(properties.creator);
+  }
+  if (properties.language) {
+    document.setLanguage(properties.language);
+  }
+
+  const info = getInfoDict(document);
+  for (const [key, value] of Object.entries(custom)) {
+    info.set(PDFName.of(key), PDFHexString.fromText(value));
+  }
+
+  document.setModificationDate(new Date());
+  writeXmpMetadata(document, { custom });
+
+  return Buffer.from(await document.save());
+}
@@ -0,0 +1,61 @@
+import { decodePDFRawStream, PDFArray, PDFDocument, PDFName, PDFRawStream } from 'pdf-lib';
+import { flattenDocument } from './flatten';
+
+async function createForm(): Promise<PDFDocument> {
+  const document = await PDFDocument.create();
+  const page = document.addPage([300, 200]);
+  const field = document.getForm().createTextField('name');
+  field.setText('Jane Doe');
+  field.addToPage(page, { x: 20, y: 100, width: 200, height: 30 });
+  return document;
+}
+
+function readContent(document: PDFDocument, pageIndex: number): string {
+  const contents = document.getPage(pageIndex).node.Contents();
+  const streams = contents instanceof PDFArray ? contents.asArray() : contents ? [contents] : [];
+
+  return streams
+    .map(ref => document.context.lookup(ref))
+    .map(stream =>
+      stream instanceof PDFRawStream
+        ? Buffer.from(decodePDFRawStream(stream).decode()).toString('latin1')
+        : ''
+    )
+    .join('\n');
+}
+
+describe('flattenDocument', () => {
+  it('draws fields on a page that has no content of its own', async () => {
+    const document = await createForm();
+    expect(document.getPage(0).node.Contents()).toBeUndefined();
+
+    const report = flattenDocument(document);
+    const flattened = await PDFDocument.load(await document.save());
+
+    expect(report).toEqual({ fields: 1, annotations: 0 });
+    expect(readContent(flattened, 0)).toMatch(/\/Flat-\d+ Do/);
+    expect(flattened.catalog.get(PDFName.of('AcroForm'))).toBeUndefined();
+    expect(flattened.getPage(0).node.get(PDFName.of('Annots'))).toBeUndefined();
+  });
+
+  it('keeps the existing page content and draws fields after it', async () => {
+    const document = await createForm();
+    document.getPage(0).drawText('Name:', { x: 20, y: 140, size: 12 });
+
+    flattenDocument(document);
+    const content = readContent(await PDFDocument.load(await document.save()), 0);
+
+    expect(content.indexOf('Tj')).toBeGreaterThan(-1);
+    expect(content.indexOf('Do')).toBeGreaterThan(content.indexOf('Tj'));
+  });
+
+  it('leaves form fields alone when only annotations are flattened', async () => {
+    const document = await createForm();
+
+    const report = flattenDocument(document, { forms: false });
+
+    expect(report.fields).toBe(0);
+    expect(document.getForm().getFields()).toHaveLength(1);
+    expect(document.getPage(0).node.Contents()).toBeUndefined();
+  });
+});
@@ -0,0 +1,224 @@
+import {
+  concatTransformationMatrix,
+  drawObject,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFOperator,
+  PDFPage,
+  PDFRef,
+  PDFStream,
+  popGraphicsState,
+  pushGraphicsState,
+} from 'pdf-lib';
+import { createError } from './errors';
+
+export interface FlattenOptions {
+  /** Draw form fields into the page content and remove the form (default true) */
+  forms?: boolean;
+  /** Draw comments, highlights, stamps, ... into the page content (default true) */
+  annotations?: boolean;
+}
+
+export interface FlattenReport {
+  fields: number;
+  annotations: number;
+}
+
+// Annotation flags (PDF 32000-1, 12.5.3)
+const FLAG_HIDDEN = 1 << 1;
+const FLAG_NO_VIEW = 1 << 5;
+
+/**
+ * Draw form fields and annotations into the page content and remove them,
+ * so the result can no longer be edited. Links are kept, they don't change
+ * what is shown.
+ */
+export function flattenDocument(
+  document: PDFDocument,
+  options: FlattenOptions = {}
+): FlattenReport {
+  const flattenForms = options.forms !== false;
+  const flattenAnnotations = options.annotations !== false;
+  const report: FlattenReport = { fields: 0, annotations: 0 };
+
+  if (flattenForms) {
+    const form = document.getForm();
+    report.fields = form.getFields().length;
+
+    // Values set without an appearance (or changed since) need one to be drawn
+    try {
+      form.updateFieldAppearances();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/cannot encode/i.test(message)) {
+        throw createError.invalidInput(
+          'A field value contains characters outside Latin-1, so the form cannot be flattened'
+        );
+      }
+      throw error;
+    }
+  }
+
+  for (const page of document.getPages()) {
+    const annotations = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+    if (!annotations) {
+      continue;
+    }
+
+    const kept: PDFRef[] = [];
+    const operators: PDFOperator[] = [];
+
+    for (let i = 0; i < annotations.size(); i++) {
+      const ref = annotations.get(i);
+      const annotation = annotations.lookup(i);
+      if (!(annotation instanceof PDFDict)) {
+        continue;
+      }
+
+      const subtype = annotation.lookupMaybe(PDFName.of('Subtype'), PDFName);
+      const isWidget = subtype === PDFName.of('Widget');
+      if (
+        subtype === PDFName.of('Link') ||
+        (isWidget && !flattenForms) ||
+        (!isWidget && !flattenAnnotations)
+      ) {
+        if (ref instanceof PDFRef) {
+          kept.push(ref);
+        }
+        continue;
+      }
+
+      if (!isWidget) {
+        report.annotations++;
+      }
+
+      const flags = annotation.lookupMaybe(PDFName.of('F'), PDFNumber)?.asNumber() ?? 0;
+      const appearance = getNormalAppearance(annotation);
+      if (appearance && !(flags & FLAG_HIDDEN) && !(flags & FLAG_NO_VIEW)) {
+        operators.push(...drawAppearance(page, annotation, appearance));
+      }
+    }
+
+    if (operators.length > 0) {
+      // Isolate the drawings from the graphics state the page content leaves behind
+      const context = document.context;
+      const start = context.register(context.contentStream([pushGraphicsState()]));
+      const end = context.register(context.contentStream([popGraphicsState(), ...operators]));
+      page.node.normalize();
+      // Pages with nothing but form fields may have no content to wrap
+      if (!page.node.wrapContentStreams(start, end)) {
+        page.node.set(PDFName.of('Contents'), context.obj([start, end]));
+      }
+    }
+
+    if (kept.length > 0) {
+      page.node.set(PDFName.of('Annots'), document.context.obj(kept));
+    } else {
+      page.node.delete(PDFName.of('Annots'));
+    }
+  }
+
+  if (flattenForms) {
+    document.catalog.delete(PDFName.of('AcroForm'));
+  }
+
+  return report;
+}
+
+/**
+ * The appearance shown when the annotation is not interacted with, picking
+ * the current state (/AS) for checkboxes and radio buttons
+ */
+function getNormalAppearance(annotation: PDFDict): PDFRef | undefined {
+  const appearances = annotation.lookupMaybe(PDFName.of('AP'), PDFDict);
+  const normal = appearances?.get(PDFName.of('N'));
+  if (!normal) {
+    return undefined;
+  }
+
+  const resolved = annotation.context.lookup(normal);
+  if (resolved instanceof PDFStream) {
+    return normal instanceof PDFRef ? normal : undefined;
+  }
+
+  if (resolved instanceof PDFDict) {
+    const state = annotation.lookupMaybe(PDFName.of('AS'), PDFName);
+    const stateAppearance = state ? resolved.get(state) : undefined;
+    return stateAppearance instanceof PDFRef ? stateAppearance : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Operators that draw an appearance stream at the annotation rectangle, mapping
+ * its transformed bounding box onto the rectangle (PDF 32000-1, 12.5.5)
+ */
+function drawAppearance(page: PDFPage, annotation: PDFDict, appearanceRef: PDFRef): PDFOperator[] {
+  const appearance = annotation.context.lookup(appearanceRef, PDFStream);
+  const rect = readNumbers(annotation.lookupMaybe(PDFName.of('Rect'), PDFArray), 4);
+  const bbox = readNumbers(appearance.dict.lookupMaybe(PDFName.of('BBox'), PDFArray), 4);
+  if (!rect || !bbox) {
+    return [];
+  }
+  const [a, b, c, d, e, f] = readNumbers(
+    appearance.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray),
+    6
+  ) || [1, 0, 0, 1, 0, 0];
+
+  const corners = [
+    [bbox[0], bbox[1]],
+    [bbox[2], bbox[1]],
+    [bbox[0], bbox[3]],
+    [bbox[2], bbox[3]],
+  ].map(([x, y]) => [a! * x! + c! * y! + e!, b! * x! + d! * y! + f!]);
+  const xs = corners.map(([x]) => x!);
+  const ys = corners.map(([, y]) => y!);
+  const box = {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+  if (box.width === 0 || box.height === 0) {
+    return [];
+  }
+
+  const left = Math.min(rect[0]!, rect[2]!);
+  const bottom = Math.min(rect[1]!, rect[3]!);
+  const scaleX = Math.abs(rect[2]! - rect[0]!) / box.width;
+  const scaleY = Math.abs(rect[3]! - rect[1]!) / box.height;
+
+  const name = page.node.newXObject('Flat', appearanceRef);
+  return [
+    pushGraphicsState(),
+    concatTransformationMatrix(
+      scaleX,
+      0,
+      0,
+      scaleY,
+      left - box.x * scaleX,
+      bottom - box.y * scaleY
+    ),
+    drawObject(name),
+    popGraphicsState(),
+  ];
+}
+
+function readNumbers(array: PDFArray | undefined, count: number): number[] | undefined {
+  if (!array || array.size() < count) {
+    return undefined;
+  }
+  const numbers: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const value = array.lookup(i);
+    if (!(value instanceof PDFNumber)) {
+      return undefined;
+    }
+    numbers.push(value.asNumber());
+  }
+  return numbers;
+}
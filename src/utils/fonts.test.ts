@@ -0,0 +1,19 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { getEmbeddableFontPath } from './fonts';
+
+describe('getEmbeddableFontPath', () => {
+  it('maps Helvetica and Arial variants to the matching Liberation Sans style', () => {
+    expect(path.basename(getEmbeddableFontPath())).toBe('LiberationSans-Regular.ttf');
+    expect(path.basename(getEmbeddableFontPath('Helvetica-BoldOblique'))).toBe(
+      'LiberationSans-BoldItalic.ttf'
+    );
+    expect(path.basename(getEmbeddableFontPath('Arial'))).toBe('LiberationSans-Regular.ttf');
+    expect(fs.existsSync(getEmbeddableFontPath('Helvetica-Bold'))).toBe(true);
+  });
+
+  it('rejects fonts without an embeddable replacement', () => {
+    expect(() => getEmbeddableFontPath('Times-Roman')).toThrow(/Times-Roman has no embeddable/);
+    expect(() => getEmbeddableFontPath('Courier')).toThrow(/Use Helvetica or Arial/);
+  });
+});
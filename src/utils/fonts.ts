@@ -0,0 +1,44 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createError } from './errors';
+
+// pdf.js ships Liberation Sans, which is metric-compatible with Arial and so
+// with Helvetica: text laid out for the built-in font keeps its line breaks.
+// It has no serif or monospaced Liberation font to stand in for Times or Courier.
+const FONT_ROOT = path.join(
+  path.dirname(require.resolve('pdfjs-dist/package.json')),
+  'standard_fonts'
+);
+
+const EMBEDDABLE_FONTS = {
+  regular: 'LiberationSans-Regular.ttf',
+  bold: 'LiberationSans-Bold.ttf',
+  italic: 'LiberationSans-Italic.ttf',
+  boldItalic: 'LiberationSans-BoldItalic.ttf',
+};
+
+/**
+ * Path of a TrueType font that can be embedded in place of Helvetica or
+ * Arial and their bold and italic variants. Needed wherever the output must
+ * be PDF/A, which forbids fonts that are not embedded.
+ */
+export function getEmbeddableFontPath(standardFont: string = 'Helvetica'): string {
+  if (!/^(helvetica|arial)/i.test(standardFont)) {
+    throw createError.invalidInput(
+      `PDF/A output needs embedded fonts and ${standardFont} has no embeddable replacement. Use Helvetica or Arial.`
+    );
+  }
+
+  const bold = /bold/i.test(standardFont);
+  const italic = /italic|oblique/i.test(standardFont);
+  const style = bold && italic ? 'boldItalic' : bold ? 'bold' : italic ? 'italic' : 'regular';
+
+  return path.join(FONT_ROOT, EMBEDDABLE_FONTS[style]);
+}
+
+/**
+ * Read the embeddable font for a built-in PDF font
+ */
+export async function readEmbeddableFont(standardFont?: string): Promise<Buffer> {
+  return fs.readFile(getEmbeddableFontPath(standardFont));
+}
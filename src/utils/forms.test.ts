@@ -0,0 +1,49 @@
+import { PDFDocument } from 'pdf-lib';
+import { fillFormFields } from './forms';
+
+async function createForm(): Promise<PDFDocument> {
+  const document = await PDFDocument.create();
+  const page = document.addPage([300, 200]);
+  const form = document.getForm();
+  form.createTextField('name').addToPage(page, { x: 20, y: 140, width: 200, height: 24 });
+  form.createTextField('address').addToPage(page, { x: 20, y: 100, width: 200, height: 24 });
+  form.createCheckBox('subscribe').addToPage(page, { x: 20, y: 60, width: 16, height: 16 });
+  return document;
+}
+
+describe('fillFormFields', () => {
+  it('reports the fields it set and the names it skipped', async () => {
+    const document = await createForm();
+
+    const report = fillFormFields(
+      document,
+      { name: 'Jane Doe', subscribe: 'yes', id: 42 },
+      { ignoreUnknownFields: true }
+    );
+
+    expect(report).toEqual({ filled: ['name', 'subscribe'], ignored: ['id'] });
+    expect(document.getForm().getTextField('name').getText()).toBe('Jane Doe');
+    expect(document.getForm().getCheckBox('subscribe').isChecked()).toBe(true);
+  });
+
+  it('skips objects and arrays for text fields when ignoring unknown names', async () => {
+    const document = await createForm();
+
+    const report = fillFormFields(
+      document,
+      { name: ['Jane', 'Doe'], address: { city: 'Berlin' } },
+      { ignoreUnknownFields: true }
+    );
+
+    expect(report).toEqual({ filled: [], ignored: ['name', 'address'] });
+    expect(document.getForm().getTextField('address').getText()).toBeUndefined();
+  });
+
+  it('rejects objects for text fields otherwise', async () => {
+    const document = await createForm();
+
+    expect(() => fillFormFields(document, { address: { city: 'Berlin' } })).toThrow(
+      /Cannot set field "address"/
+    );
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFButton,
+  PDFCheckBox,
+  PDFDict,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFName,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFSignature,
+  PDFTextField,
+} from 'pdf-lib';
+import { FillFormReport, FormFieldInfo, FormFieldType, FormFieldWidget } from '../types';
+import { createError } from './errors';
+import { flattenDocument } from './flatten';
+
+// Values that check a checkbox, compared case-insensitively
+const CHECKED_VALUES = ['true', 'yes', 'on', '1', 'x', 'checked'];
+
+/**
+ * Get the kind of an AcroForm field
+ */
+export function getFieldType(field: PDFField): FormFieldType {
+  if (field instanceof PDFTextField) {
+    return 'text';
+  }
+  if (field instanceof PDFCheckBox) {
+    return 'checkbox';
+  }
+  if (field instanceof PDFRadioGroup) {
+    return 'radio';
+  }
+  if (field instanceof PDFDropdown) {
+    return 'dropdown';
+  }
+  if (field instanceof PDFOptionList) {
+    return 'list';
+  }
+  if (field instanceof PDFButton) {
+    return 'button';
+  }
+  if (field instanceof PDFSignature) {
+    return 'signature';
+  }
+  return 'unknown';
+}
+
+/**
+ * Describe every form field: type, value, options, flags and where it appears
+ */
+export function readFormFields(document: PDFDocument): FormFieldInfo[] {
+  // Widgets don't always point back to their page, so map them from the page side
+  const pageByWidget = new Map<PDFDict, number>();
+  document.getPages().forEach((page, index) => {
+    const annotations = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+    for (let i = 0; i < (annotations?.size() || 0); i++) {
+      const annotation = annotations!.lookup(i);
+      if (annotation instanceof PDFDict) {
+        pageByWidget.set(annotation, index + 1);
+      }
+    }
+  });
+
+  return document
+    .getForm()
+    .getFields()
+    .map(field => {
+      const widgets: FormFieldWidget[] = field.acroField.getWidgets().map(widget => {
+        const { x, y, width, height } = widget.getRectangle();
+        return {
+          page: pageByWidget.get(widget.dict) ?? null,
+          rect: { x: round(x), y: round(y), width: round(width), height: round(height) },
+        };
+      });
+
+      const info: FormFieldInfo = {
+        name: field.getName(),
+        type: getFieldType(field),
+        value: null,
+        required: field.isRequired(),
+        readOnly: field.isReadOnly(),
+        page: widgets[0]?.page ?? null,
+        rect: widgets[0]?.rect ?? null,
+        widgets,
+      };
+
+      if (field instanceof PDFTextField) {
+        info.value = field.getText() ?? null;
+        info.multiline = field.isMultiline();
+        const maxLength = field.getMaxLength();
+        if (maxLength !== undefined) {
+          info.maxLength = maxLength;
+        }
+      } else if (field instanceof PDFCheckBox) {
+        info.value = field.isChecked();
+      } else if (field instanceof PDFRadioGroup) {
+        info.value = field.getSelected() ?? null;
+        info.options = field.getOptions();
+      } else if (field instanceof PDFDropdown) {
+        const selected = field.getSelected();
+        info.multiSelect = field.isMultiselect();
+        info.value = info.multiSelect ? selected : (selected[0] ?? null);
+        info.options = field.getOptions();
+      } else if (field instanceof PDFOptionList) {
+        info.value = field.getSelected();
+        info.multiSelect = field.isMultiselect();
+        info.options = field.getOptions();
+      }
+
+      return info;
+    });
+}
+
+/**
+ * Set form fields by their full name. Unknown names, and objects or arrays
+ * given for text fields, are an error unless ignoreUnknownFields is set.
+ * Undefined values leave a field unchanged.
+ */
+export function fillFormFields(
+  document: PDFDocument,
+  values: { [name: string]: unknown },
+  options: { ignoreUnknownFields?: boolean } = {}
+): FillFormReport {
+  const form = document.getForm();
+  const fields = new Map(form.getFields().map(field => [field.getName(), field]));
+  const report: FillFormReport = { filled: [], ignored: [] };
+
+  const unknown = Object.keys(values).filter(name => {
+    const type = fields.has(name) ? getFieldType(fields.get(name)!) : undefined;
+    return !type || type === 'button' || type === 'signature' || type === 'unknown';
+  });
+  if (unknown.length > 0 && !options.ignoreUnknownFields) {
+    throw createError.invalidInput(
+      `No fillable form field named ${unknown.map(name => `"${name}"`).join(', ')}`
+    );
+  }
+  report.ignored = unknown;
+
+  for (const [name, value] of Object.entries(values)) {
+    const field = fields.get(name);
+    if (!field || unknown.includes(name) || value === undefined) {
+      continue;
+    }
+
+    // Nested data, e.g. from the item JSON, has no sensible text form
+    if (field instanceof PDFTextField && isStructured(value)) {
+      if (!options.ignoreUnknownFields) {
+        throw createError.invalidInput(
+          `Cannot set field "${name}": a text field takes text, not an object or array`
+        );
+      }
+      report.ignored.push(name);
+      continue;
+    }
+
+    try {
+      setFieldValue(field, value);
+    } catch (error) {
+      throw createError.invalidInput(
+        `Cannot set field "${name}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    report.filled.push(name);
+  }
+
+  return report;
+}
+
+/**
+ * Save a filled form. Field appearances are drawn with Helvetica, which only
+ * covers Latin-1; for other text the viewer is asked to draw them instead.
+ * Flattening needs the appearances, so it fails for such text.
+ */
+export async function saveFilledForm(document: PDFDocument, flatten: boolean): Promise<Buffer> {
+  if (flatten) {
+    flattenDocument(document, { annotations: false });
+    return Buffer.from(await document.save({ updateFieldAppearances: false }));
+  }
+
+  const form = document.getForm();
+  try {
+    form.updateFieldAppearances();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!/cannot encode/i.test(message)) {
+      throw error;
+    }
+
+    form.acroForm.dict.set(PDFName.of('NeedAppearances'), PDFBool.True);
+  }
+
+  return Buffer.from(await document.save({ updateFieldAppearances: false }));
+}
+
+function setFieldValue(field: PDFField, value: unknown): void {
+  if (field instanceof PDFTextField) {
+    field.setText(value === null ? undefined : toText(value));
+  } else if (field instanceof PDFCheckBox) {
+    if (isChecked(value)) {
+      field.check();
+    } else {
+      field.uncheck();
+    }
+  } else if (field instanceof PDFRadioGroup) {
+    if (value === null || value === '') {
+      field.clear();
+      return;
+    }
+    field.select(matchOption(toText(value), field.getOptions()));
+  } else if (field instanceof PDFDropdown) {
+    if (value === null || value === '') {
+      field.clear();
+      return;
+    }
+    const selected = toList(value, field.getOptions());
+    field.select(
+      field.isEditable()
+        ? selected
+        : selected.map(option => matchOption(option, field.getOptions()))
+    );
+  } else if (field instanceof PDFOptionList) {
+    if (value === null || value === '') {
+      field.clear();
+      return;
+    }
+    const options = field.getOptions();
+    field.select(toList(value, options).map(option => matchOption(option, options)));
+  }
+}
+
+function matchOption(value: string, options: string[]): string {
+  if (options.includes(value)) {
+    return value;
+  }
+  throw new Error(`"${value}" is not one of ${options.map(option => `"${option}"`).join(', ')}`);
+}
+
+/**
+ * Selected options from an array or a comma-separated string. A string that
+ * is itself an option wins, so options containing commas still work.
+ */
+function toList(value: unknown, options: string[]): string[] {
+  if (Array.isArray(value)) {
+    return value.map(toText);
+  }
+  const text = toText(value);
+  if (options.includes(text)) {
+    return [text];
+  }
+  return text
+    .split(',')
+    .map(option => option.trim())
+    .filter(option => option.length > 0);
+}
+
+function isChecked(value: unknown): boolean {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return value !== 0;
+  }
+  return CHECKED_VALUES.includes(toText(value).trim().toLowerCase());
+}
+
+function isStructured(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && !(value instanceof Date);
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -4,3 +4,20 @@ export * from './BrowserInstaller';
 export * from './resolveInputs';
 export * from './systemDependencies';
 export * from './browserSetup';
+export * from './pageRanges';
+export * from './outline';
+export * from './pdfSecurity';
+export * from './watermark';
+export * from './pdfjs';
+export * from './pdfRenderer';
+export * from './documentProperties';
+export * from './browserPool';
+export * from './concurrency';
+export * from './template';
+export * from './forms';
+export * from './flatten';
+export * from './pdfa';
+export * from './fonts';
+export * from './blankPages';
+export * from './xmp';
+export * from './itemFields';
@@ -0,0 +1,77 @@
+import { IDataObject, INodeExecutionData } from 'n8n-workflow';
+import { getFieldValue, groupItems, sortByKeys } from './itemFields';
+
+const items = (...json: IDataObject[]): INodeExecutionData[] =>
+  json.map(value => ({ json: value }));
+
+describe('getFieldValue', () => {
+  it('reads nested fields with dot notation', () => {
+    expect(
+      getFieldValue({ customer: { address: { city: 'Lyon' } } }, 'customer.address.city')
+    ).toBe('Lyon');
+  });
+
+  it('returns undefined for a missing field or a path through a value', () => {
+    expect(getFieldValue({ customer: null }, 'customer.name')).toBeUndefined();
+    expect(getFieldValue({ customer: 'Ada' }, 'customer.name')).toBeUndefined();
+    expect(getFieldValue(undefined, 'customer')).toBeUndefined();
+  });
+});
+
+describe('groupItems', () => {
+  it('groups items in the order their values first appear', () => {
+    const groups = groupItems(
+      items({ customer: 'b' }, { customer: 'a' }, { customer: 'b' }, { customer: 'a' }),
+      'customer'
+    );
+
+    expect(groups).toEqual([
+      { key: 'b', itemIndices: [0, 2] },
+      { key: 'a', itemIndices: [1, 3] },
+    ]);
+  });
+
+  it('groups by a nested field', () => {
+    const groups = groupItems(
+      items({ order: { customer: 7 } }, { order: { customer: 8 } }, { order: { customer: 7 } }),
+      'order.customer'
+    );
+
+    expect(groups).toEqual([
+      { key: 7, itemIndices: [0, 2] },
+      { key: 8, itemIndices: [1] },
+    ]);
+  });
+
+  it('puts items without the field in one group with a null key', () => {
+    const groups = groupItems(items({}, { customer: null }, { customer: 'a' }), 'customer');
+
+    expect(groups).toEqual([
+      { key: null, itemIndices: [0, 1] },
+      { key: 'a', itemIndices: [2] },
+    ]);
+  });
+
+  it('keeps a number and the same digits as a string apart', () => {
+    const groups = groupItems(items({ id: 1 }, { id: '1' }, { id: 1 }), 'id');
+
+    expect(groups).toEqual([
+      { key: 1, itemIndices: [0, 2] },
+      { key: '1', itemIndices: [1] },
+    ]);
+  });
+});
+
+describe('sortByKeys', () => {
+  it('sorts text in natural order, ignoring case', () => {
+    expect(sortByKeys(['page10.pdf', 'Page2.pdf', 'page1.pdf'])).toEqual([2, 1, 0]);
+  });
+
+  it('compares numbers by value', () => {
+    expect(sortByKeys([10, 9, 100])).toEqual([1, 0, 2]);
+  });
+
+  it('puts missing keys last and keeps ties in their order', () => {
+    expect(sortByKeys(['b', undefined, 'a', '', null, 'a'])).toEqual([2, 5, 0, 1, 3, 4]);
+  });
+});
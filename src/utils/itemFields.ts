@@ -0,0 +1,65 @@
+import { GenericValue, IDataObject, INodeExecutionData } from 'n8n-workflow';
+
+export interface ItemGroup {
+  /** Value of the field shared by the items, null when they don't have it */
+  key: GenericValue;
+  itemIndices: number[];
+}
+
+/**
+ * Read a field of the item JSON, with dot notation for nested fields
+ */
+export function getFieldValue(json: IDataObject | undefined, field: string): GenericValue {
+  return field
+    .split('.')
+    .reduce<GenericValue>(
+      (value, key) =>
+        value !== null && typeof value === 'object' ? (value as IDataObject)[key] : undefined,
+      json
+    );
+}
+
+/**
+ * Group items by the value of a field, in the order the values first appear.
+ * Items without the field form a group with a null key.
+ */
+export function groupItems(items: INodeExecutionData[], field: string): ItemGroup[] {
+  const groups = new Map<string, ItemGroup>();
+
+  items.forEach((item, index) => {
+    const key = getFieldValue(item.json, field) ?? null;
+    const id = JSON.stringify(key);
+
+    const group = groups.get(id);
+    if (group) {
+      group.itemIndices.push(index);
+    } else {
+      groups.set(id, { key, itemIndices: [index] });
+    }
+  });
+
+  return [...groups.values()];
+}
+
+/**
+ * Positions of the keys in sorted order. Numbers compare by value, text in
+ * natural order (page2 before page10). Missing keys go last; ties keep their order.
+ */
+export function sortByKeys(keys: GenericValue[]): number[] {
+  const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+  const isMissing = (key: GenericValue): boolean => key === undefined || key === null || key === '';
+
+  return keys
+    .map((_, index) => index)
+    .sort((a, b) => {
+      const keyA = keys[a];
+      const keyB = keys[b];
+      if (isMissing(keyA) || isMissing(keyB)) {
+        return Number(isMissing(keyA)) - Number(isMissing(keyB));
+      }
+      if (typeof keyA === 'number' && typeof keyB === 'number') {
+        return keyA - keyB;
+      }
+      return collator.compare(String(keyA), String(keyB));
+    });
+}
@@ -0,0 +1,258 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+
+export interface OutlineEntry {
+  title: string;
+  /** Zero-based index of the destination page, or null if it can't be resolved */
+  pageIndex: number | null;
+  children: OutlineEntry[];
+}
+
+// Guard against malformed outlines that link back to themselves
+const MAX_OUTLINE_ITEMS = 10000;
+
+/**
+ * Read the document outline (bookmarks) as a tree of entries
+ */
+export function readOutline(pdf: PDFDocument): OutlineEntry[] {
+  const outlines = pdf.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  if (!outlines) {
+    return [];
+  }
+
+  const pageIndexByRef = new Map<string, number>();
+  pdf.getPages().forEach((page, index) => pageIndexByRef.set(page.ref.toString(), index));
+
+  const visited = new Set<PDFDict>();
+
+  const readLevel = (parent: PDFDict): OutlineEntry[] => {
+    const entries: OutlineEntry[] = [];
+    let item = parent.lookupMaybe(PDFName.of('First'), PDFDict);
+
+    while (item && !visited.has(item) && visited.size < MAX_OUTLINE_ITEMS) {
+      visited.add(item);
+
+      entries.push({
+        title: decodeText(item.lookup(PDFName.of('Title'))),
+        pageIndex: resolveDestinationPage(pdf, item, pageIndexByRef),
+        children: readLevel(item),
+      });
+
+      item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+    }
+
+    return entries;
+  };
+
+  return readLevel(outlines);
+}
+
+function resolveDestinationPage(
+  pdf: PDFDocument,
+  item: PDFDict,
+  pageIndexByRef: Map<string, number>
+): number | null {
+  let destination: PDFObject | undefined = item.get(PDFName.of('Dest'));
+
+  // Fall back to a GoTo action
+  if (!destination) {
+    const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+    if (action && action.lookup(PDFName.of('S')) === PDFName.of('GoTo')) {
+      destination = action.get(PDFName.of('D'));
+    }
+  }
+
+  if (!destination) {
+    return null;
+  }
+
+  const resolved = resolveDestination(pdf, destination);
+  if (!(resolved instanceof PDFArray) || resolved.size() === 0) {
+    return null;
+  }
+
+  const target = resolved.get(0);
+  if (target instanceof PDFRef) {
+    return pageIndexByRef.get(target.toString()) ?? null;
+  }
+
+  return null;
+}
+
+function resolveDestination(pdf: PDFDocument, destination: PDFObject): PDFObject | undefined {
+  const value = destination instanceof PDFRef ? pdf.context.lookup(destination) : destination;
+
+  if (value instanceof PDFArray) {
+    return value;
+  }
+
+  // Explicit destination wrapped in a dictionary (e.g. << /D [...] >>)
+  if (value instanceof PDFDict) {
+    return resolveDestination(pdf, value.get(PDFName.of('D')) as PDFObject);
+  }
+
+  // Named destination (PDF 1.1 style Dests dictionary)
+  if (value instanceof PDFName) {
+    const dests = pdf.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    const named = dests?.get(PDFName.of(value.decodeText()));
+    return named ? resolveDestination(pdf, named) : undefined;
+  }
+
+  // Named destination (PDF 1.2+ name tree)
+  if (value instanceof PDFString || value instanceof PDFHexString) {
+    const names = pdf.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+    const tree = names?.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    const named = tree ? lookupNameTree(tree, value.decodeText()) : undefined;
+    return named ? resolveDestination(pdf, named) : undefined;
+  }
+
+  return undefined;
+}
+
+function lookupNameTree(node: PDFDict, key: string, depth: number = 0): PDFObject | undefined {
+  if (depth > 32) {
+    return undefined;
+  }
+
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  if (names) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      if (decodeText(names.lookup(i)) === key) {
+        return names.get(i + 1);
+      }
+    }
+  }
+
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  if (kids) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookup(i);
+      if (kid instanceof PDFDict) {
+        const found = lookupNameTree(kid, key, depth + 1);
+        if (found) {
+          return found;
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Read all key/value pairs of a name tree (e.g. EmbeddedFiles) in order
+ */
+export function readNameTree(node: PDFDict, depth: number = 0): Array<[string, PDFObject]> {
+  if (depth > 32) {
+    return [];
+  }
+
+  const entries: Array<[string, PDFObject]> = [];
+
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  if (names) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      entries.push([decodeText(names.lookup(i)), names.get(i + 1)]);
+    }
+  }
+
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  if (kids) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookup(i);
+      if (kid instanceof PDFDict) {
+        entries.push(...readNameTree(kid, depth + 1));
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Decode a PDF text string or name
+ */
+export function decodeText(value: PDFObject | undefined): string {
+  if (value instanceof PDFString || value instanceof PDFHexString) {
+    return value.decodeText();
+  }
+  if (value instanceof PDFName) {
+    return value.decodeText();
+  }
+  return '';
+}
+
+/**
+ * Replace the document outline (bookmarks) with the given entries. Top-level
+ * entries are shown expanded, nested ones collapsed. Entries without a page
+ * index are written without a destination.
+ */
+export function writeOutline(pdf: PDFDocument, entries: OutlineEntry[]): void {
+  if (entries.length === 0) {
+    pdf.catalog.delete(PDFName.of('Outlines'));
+    return;
+  }
+
+  const context = pdf.context;
+  const pages = pdf.getPages();
+
+  const writeLevel = (
+    parentRef: PDFRef,
+    level: OutlineEntry[]
+  ): { first: PDFRef; last: PDFRef } => {
+    const refs = level.map(() => context.nextRef());
+
+    level.forEach((entry, index) => {
+      const item = context.obj({});
+      item.set(PDFName.of('Title'), PDFHexString.fromText(entry.title));
+      item.set(PDFName.of('Parent'), parentRef);
+      if (index > 0) {
+        item.set(PDFName.of('Prev'), refs[index - 1]!);
+      }
+      if (index < refs.length - 1) {
+        item.set(PDFName.of('Next'), refs[index + 1]!);
+      }
+
+      const page = entry.pageIndex !== null ? pages[entry.pageIndex] : undefined;
+      if (page) {
+        item.set(PDFName.of('Dest'), context.obj([page.ref, PDFName.of('Fit')]));
+      }
+
+      if (entry.children.length > 0) {
+        const children = writeLevel(refs[index]!, entry.children);
+        item.set(PDFName.of('First'), children.first);
+        item.set(PDFName.of('Last'), children.last);
+        // A negative count marks the entry as collapsed
+        item.set(PDFName.of('Count'), context.obj(-entry.children.length));
+      }
+
+      context.assign(refs[index]!, item);
+    });
+
+    return { first: refs[0]!, last: refs[refs.length - 1]! };
+  };
+
+  const rootRef = context.nextRef();
+  const top = writeLevel(rootRef, entries);
+  context.assign(
+    rootRef,
+    context.obj({
+      Type: 'Outlines',
+      First: top.first,
+      Last: top.last,
+      Count: entries.length,
+    })
+  );
+
+  pdf.catalog.set(PDFName.of('Outlines'), rootRef);
+  // Open the bookmarks panel when the document is opened
+  pdf.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
@@ -0,0 +1,34 @@
+import { parsePageRange, resolvePageIndices } from './pageRanges';
+
+describe('parsePageRange', () => {
+  it('returns zero-based indices for pages and ranges', () => {
+    expect(parsePageRange('1-3,5,7-8', 10)).toEqual([0, 1, 2, 4, 6, 7]);
+  });
+
+  it('sorts the pages and removes duplicates', () => {
+    expect(parsePageRange('5, 2-3, 3, 1', 10)).toEqual([0, 1, 2, 4]);
+  });
+
+  it('clips ranges at the last page and drops pages beyond it', () => {
+    expect(parsePageRange('4-99,12', 5)).toEqual([3, 4]);
+  });
+
+  it('ignores malformed, zero and reversed parts', () => {
+    expect(parsePageRange('abc,0,-2,3-1,,2', 5)).toEqual([1]);
+  });
+
+  it('returns nothing for an empty range', () => {
+    expect(parsePageRange('', 5)).toEqual([]);
+  });
+});
+
+describe('resolvePageIndices', () => {
+  it('selects every page when no range is given', () => {
+    expect(resolvePageIndices(undefined, 3)).toEqual([0, 1, 2]);
+    expect(resolvePageIndices('  ', 3)).toEqual([0, 1, 2]);
+  });
+
+  it('parses a given range', () => {
+    expect(resolvePageIndices('2-3', 3)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Parse a page range string (e.g. "1-3,5,7-9") into zero-based page indices.
+ * Out-of-range and malformed parts are ignored. The result is unique and sorted.
+ */
+export function parsePageRange(range: string, totalPages: number): number[] {
+  const indices: number[] = [];
+
+  const parts = range.split(',');
+  for (const part of parts) {
+    const trimmed = part.trim();
+
+    if (trimmed.includes('-')) {
+      // Range (e.g., "1-3")
+      const bounds = trimmed.split('-');
+      const start = parseInt(bounds[0]?.trim() || '0');
+      const end = parseInt(bounds[1]?.trim() || '0');
+      if (!isNaN(start) && !isNaN(end) && start > 0 && end > 0) {
+        for (let i = start - 1; i < Math.min(end, totalPages); i++) {
+          if (i >= 0 && i < totalPages) {
+            indices.push(i);
+          }
+        }
+      }
+    } else {
+      // Single page (e.g., "5")
+      const pageNum = parseInt(trimmed);
+      if (!isNaN(pageNum) && pageNum > 0 && pageNum <= totalPages) {
+        indices.push(pageNum - 1);
+      }
+    }
+  }
+
+  // Return unique indices in order
+  return [...new Set(indices)].sort((a, b) => a - b);
+}
+
+/**
+ * Resolve an optional page range to zero-based indices, defaulting to every page
+ */
+export function resolvePageIndices(range: string | undefined, totalPages: number): number[] {
+  if (!range || range.trim().length === 0) {
+    return Array.from({ length: totalPages }, (_, i) => i);
+  }
+
+  return parsePageRange(range, totalPages);
+}
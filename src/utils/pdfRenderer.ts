@@ -0,0 +1,175 @@
+// page.evaluate() callbacks run in the browser
+/* eslint-env browser */
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Page, Route } from 'playwright-core';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { createError } from './errors';
+
+const PDFJS_ROOT = path.dirname(require.resolve('pdfjs-dist/package.json'));
+
+// Requests to this origin never leave the browser, they are answered by route()
+const RENDERER_ORIGIN = 'http://pdf-renderer.local';
+
+// Chromium refuses to allocate canvases beyond these limits
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 268435456;
+
+const RENDERER_HTML = `<!DOCTYPE html>
+<html>
+<head>
+<script src="/build/pdf.min.js"></script>
+<script src="/build/pdf.worker.min.js"></script>
+</head>
+<body></body>
+</html>`;
+
+// Globals of the renderer page
+interface RendererWindow {
+  pdfjsLib: typeof import('pdfjs-dist');
+  pdfDocument?: PDFDocumentProxy;
+}
+
+/**
+ * Renders PDF pages to PNG with pdf.js running inside a Chromium page.
+ * Loading the pdf.js worker as a script makes pdf.js run it on the main
+ * thread, so no worker file or extra system binaries are needed.
+ * The page is owned by the caller; close() only releases the document.
+ */
+export class PdfPageRenderer {
+  private document: Buffer | null = null;
+  private opened = false;
+
+  constructor(private readonly page: Page) {}
+
+  /**
+   * Load a PDF and return its page count
+   */
+  async open(data: Buffer, password?: string): Promise<number> {
+    this.document = data;
+    await this.page.route(`${RENDERER_ORIGIN}/**`, route => this.serve(route));
+    await this.page.goto(`${RENDERER_ORIGIN}/`, { waitUntil: 'load' });
+
+    const result = await this.page.evaluate(
+      async ({ password }) => {
+        const rendererWindow = window as unknown as RendererWindow;
+        try {
+          const pdfDocument = await rendererWindow.pdfjsLib.getDocument({
+            url: '/document.pdf',
+            ...(password !== null && { password }),
+            cMapUrl: '/cmaps/',
+            cMapPacked: true,
+            standardFontDataUrl: '/standard_fonts/',
+            isEvalSupported: false,
+          }).promise;
+          rendererWindow.pdfDocument = pdfDocument;
+          return { pageCount: pdfDocument.numPages };
+        } catch (error) {
+          const { message, name, code } = (error ?? {}) as {
+            message?: string;
+            name?: string;
+            code?: number;
+          };
+          return { error: String(message || error), name, code };
+        }
+      },
+      { password: password ?? null }
+    );
+
+    if ('error' in result) {
+      if (result.name === 'PasswordException') {
+        // pdf.js PasswordResponses: 1 = password needed, 2 = incorrect password
+        throw createError.unauthorized(
+          result.code === 2
+            ? 'The password for the PDF is incorrect'
+            : 'The PDF is password protected. Provide its password to open it.'
+        );
+      }
+      throw createError.invalidInput(`Failed to read PDF: ${result.error}`);
+    }
+
+    this.opened = true;
+    return result.pageCount;
+  }
+
+  /**
+   * Render a page (1-based) to PNG at the given scale (1 = 72 DPI)
+   */
+  async renderPage(pageNumber: number, scale: number): Promise<Buffer> {
+    if (!this.opened) {
+      throw createError.internalError('No PDF is open in the renderer');
+    }
+
+    const result = await this.page.evaluate(
+      async ({ pageNumber, scale, maxSide, maxArea }) => {
+        const pdfPage = await (window as unknown as RendererWindow).pdfDocument!.getPage(
+          pageNumber
+        );
+        const viewport = pdfPage.getViewport({ scale });
+        const width = Math.ceil(viewport.width);
+        const height = Math.ceil(viewport.height);
+
+        if (width > maxSide || height > maxSide || width * height > maxArea) {
+          return { tooLarge: true, width, height };
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+
+        // pdf.js paints a white background before drawing the page
+        await pdfPage.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+        pdfPage.cleanup();
+
+        const dataUrl = canvas.toDataURL('image/png');
+        // Release the canvas memory right away instead of waiting for GC
+        canvas.width = 0;
+        canvas.height = 0;
+
+        return { dataUrl };
+      },
+      { pageNumber, scale, maxSide: MAX_CANVAS_SIDE, maxArea: MAX_CANVAS_AREA }
+    );
+
+    if ('tooLarge' in result) {
+      throw createError.invalidInput(
+        `Page ${pageNumber} would render at ${result.width}x${result.height} pixels, which is too large. Lower the DPI.`
+      );
+    }
+
+    return Buffer.from(result.dataUrl!.slice(result.dataUrl!.indexOf(',') + 1), 'base64');
+  }
+
+  async close(): Promise<void> {
+    if (this.opened && !this.page.isClosed()) {
+      await this.page
+        .evaluate(() => (window as unknown as RendererWindow).pdfDocument?.destroy())
+        .catch(() => undefined);
+    }
+    this.opened = false;
+    this.document = null;
+  }
+
+  private async serve(route: Route): Promise<void> {
+    const { pathname } = new URL(route.request().url());
+
+    if (pathname === '/') {
+      return route.fulfill({ contentType: 'text/html', body: RENDERER_HTML });
+    }
+
+    if (pathname === '/document.pdf' && this.document) {
+      return route.fulfill({ contentType: 'application/pdf', body: this.document });
+    }
+
+    // Only files directly inside the pdf.js asset folders are served
+    const [, folder, fileName] = pathname.split('/');
+    if (folder && fileName && ['build', 'cmaps', 'standard_fonts'].includes(folder)) {
+      const filePath = path.join(PDFJS_ROOT, folder, path.basename(fileName));
+      if (await fs.pathExists(filePath)) {
+        return route.fulfill({ body: await fs.readFile(filePath) });
+      }
+    }
+
+    return route.fulfill({ status: 404, body: '' });
+  }
+}
@@ -0,0 +1,147 @@
+import { PDFDict, PDFDocument, PDFName, PDFNumber } from 'pdf-lib';
+import { PdfSecurityOptions } from '../types';
+import {
+  computePermissionFlags,
+  decryptPdf,
+  describeEncryption,
+  encryptPdf,
+  loadPdfDocument,
+} from './pdfSecurity';
+
+async function createPdf(): Promise<Buffer> {
+  const document = await PDFDocument.create();
+  document.setTitle('Quarterly report');
+  document.addPage([300, 200]).drawText('Confidential', { x: 20, y: 100 });
+  document.addPage([300, 200]);
+  return Buffer.from(await document.save());
+}
+
+async function readEncryptDict(pdf: Buffer): Promise<PDFDict> {
+  const document = await PDFDocument.load(pdf, { ignoreEncryption: true });
+  return document.context.lookup(document.context.trailerInfo.Encrypt, PDFDict);
+}
+
+function readNumber(dict: PDFDict, key: string): number | undefined {
+  return dict.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber();
+}
+
+describe('computePermissionFlags', () => {
+  it('allows everything that is not denied', () => {
+    const flags = computePermissionFlags();
+
+    for (const bit of [3, 4, 5, 6, 9, 10, 11, 12]) {
+      expect(flags & (1 << (bit - 1))).not.toBe(0);
+    }
+  });
+
+  it('clears the bits of denied permissions', () => {
+    const flags = computePermissionFlags({ printing: false, copying: false });
+
+    expect(flags & (1 << 2)).toBe(0);
+    expect(flags & (1 << 11)).toBe(0);
+    expect(flags & (1 << 4)).toBe(0);
+    expect(flags & (1 << 3)).not.toBe(0);
+  });
+});
+
+describe.each([
+  ['aes128', 4, 4, 'AESV2'],
+  ['aes256', 5, 6, 'AESV3'],
+] as const)('encryptPdf with %s', (algorithm, version, revision, method) => {
+  const security: PdfSecurityOptions = {
+    userPassword: 'user secret',
+    ownerPassword: 'owner secret',
+    algorithm,
+    permissions: { copying: false },
+  };
+
+  it('writes a standard security handler for the algorithm', async () => {
+    const encrypted = await encryptPdf(await createPdf(), security);
+
+    const encryptDict = await readEncryptDict(encrypted);
+    const cryptFilter = encryptDict
+      .lookup(PDFName.of('CF'), PDFDict)
+      .lookup(PDFName.of('StdCF'), PDFDict);
+
+    expect(readNumber(encryptDict, 'V')).toBe(version);
+    expect(readNumber(encryptDict, 'R')).toBe(revision);
+    expect(readNumber(encryptDict, 'P')).toBe(computePermissionFlags(security.permissions));
+    expect(cryptFilter.get(PDFName.of('CFM'))).toBe(PDFName.of(method));
+  });
+
+  it('leaves no readable strings behind', async () => {
+    const encrypted = await encryptPdf(await createPdf(), security);
+
+    expect(encrypted.toString('latin1')).not.toContain('Quarterly report');
+    await expect(PDFDocument.load(encrypted)).rejects.toThrow(/encrypted/);
+  });
+
+  it('describes the algorithm and the permissions', async () => {
+    const encrypted = await encryptPdf(await createPdf(), security);
+
+    const info = describeEncryption(await PDFDocument.load(encrypted, { ignoreEncryption: true }));
+
+    expect(info).toMatchObject({
+      encrypted: true,
+      algorithm: algorithm === 'aes128' ? 'AES-128' : 'AES-256',
+      permissions: { printing: true, modifying: true, copying: false, annotating: true },
+    });
+  });
+
+  it('opens again with the user or the owner password', async () => {
+    const encrypted = await encryptPdf(await createPdf(), security);
+
+    for (const password of ['user secret', 'owner secret']) {
+      const document = await loadPdfDocument(encrypted, password);
+      expect(document.getPageCount()).toBe(2);
+      expect(document.getTitle()).toBe('Quarterly report');
+    }
+  });
+
+  it('rejects a wrong or missing password', async () => {
+    const encrypted = await encryptPdf(await createPdf(), security);
+
+    await expect(loadPdfDocument(encrypted, 'guess')).rejects.toThrow(/incorrect/);
+    await expect(loadPdfDocument(encrypted)).rejects.toThrow(/password protected/);
+  });
+
+  it('removes the encryption with decryptPdf', async () => {
+    const encrypted = await encryptPdf(await createPdf(), security);
+
+    const document = await PDFDocument.load(await decryptPdf(encrypted, 'user secret'));
+
+    expect(document.isEncrypted).toBe(false);
+    expect(document.getPageCount()).toBe(2);
+    expect(document.getTitle()).toBe('Quarterly report');
+  });
+});
+
+describe('encryptPdf', () => {
+  it('requires a password', async () => {
+    await expect(encryptPdf(await createPdf(), {})).rejects.toThrow(/password is required/);
+  });
+
+  it('refuses a PDF that is already encrypted', async () => {
+    const encrypted = await encryptPdf(await createPdf(), { ownerPassword: 'owner secret' });
+
+    await expect(encryptPdf(encrypted, { ownerPassword: 'owner secret' })).rejects.toThrow(
+      /encrypted/
+    );
+  });
+
+  it('opens without a password when only an owner password is set', async () => {
+    const encrypted = await encryptPdf(await createPdf(), { ownerPassword: 'owner secret' });
+
+    const document = await loadPdfDocument(encrypted);
+
+    expect(document.getPageCount()).toBe(2);
+  });
+});
+
+describe('decryptPdf', () => {
+  it('returns an unencrypted PDF unchanged', async () => {
+    const pdf = await createPdf();
+
+    expect(await decryptPdf(pdf)).toBe(pdf);
+  });
+});
@@ -0,0 +1,628 @@
+import * as crypto from 'crypto';
+import {
+  PDFArray,
+  PDFBool,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  PDFWriter,
+} from 'pdf-lib';
+import { PdfEncryptionInfo, PdfPermissions, PdfSecurityOptions } from '../types';
+import { createError } from './errors';
+import {
+  aesCbcNoPadding,
+  aesDecrypt,
+  aesEcbBlock,
+  aesEncrypt,
+  computeFileKeyR4,
+  computeHashR6,
+  computeObjectKey,
+  computeOwnerEntryR4,
+  computeOwnerKeyR4,
+  computeUserEntryR4,
+  encodePasswordR6,
+  rc4,
+  xorKey,
+} from './pdfCrypto';
+
+type CryptFunction = (data: Uint8Array, ref: PDFRef) => Uint8Array;
+
+interface Decryptor {
+  strings: CryptFunction | null;
+  streams: CryptFunction | null;
+  encryptMetadata: boolean;
+}
+
+/**
+ * Whether the security options ask for any encryption at all
+ */
+export function hasPasswordProtection(security?: PdfSecurityOptions): boolean {
+  return !!(security && (security.userPassword || security.ownerPassword));
+}
+
+/**
+ * Compute the P entry of the encryption dictionary from permission flags.
+ * Permissions that aren't specified are allowed.
+ */
+export function computePermissionFlags(permissions: PdfPermissions = {}): number {
+  // Reserved bits 7-8 and 13-32 must be set
+  let flags = 0xfffff0c0;
+
+  if (permissions.printing !== false) {
+    flags |= 1 << 2; // bit 3: print
+    flags |= 1 << 11; // bit 12: high quality print
+  }
+  if (permissions.modifying !== false) {
+    flags |= 1 << 3; // bit 4: modify contents
+    flags |= 1 << 10; // bit 11: assemble document
+  }
+  if (permissions.copying !== false) {
+    flags |= 1 << 4; // bit 5: copy text and graphics
+  }
+  if (permissions.annotating !== false) {
+    flags |= 1 << 5; // bit 6: add annotations
+    flags |= 1 << 8; // bit 9: fill form fields
+  }
+
+  // bit 10: extraction for accessibility is always allowed
+  flags |= 1 << 9;
+
+  return flags | 0;
+}
+
+/**
+ * Describe the encryption of a document loaded with ignoreEncryption
+ */
+export function describeEncryption(document: PDFDocument): PdfEncryptionInfo {
+  const encryptDict = document.isEncrypted
+    ? document.context.lookup(document.context.trailerInfo.Encrypt)
+    : undefined;
+
+  if (!(encryptDict instanceof PDFDict)) {
+    return { encrypted: false };
+  }
+
+  const filter = encryptDict.lookupMaybe(PDFName.of('Filter'), PDFName);
+  const version = numberEntry(encryptDict, 'V', 0);
+  const revision = numberEntry(encryptDict, 'R', 2);
+  const flags = numberEntry(encryptDict, 'P', -1);
+
+  let algorithm: PdfEncryptionInfo['algorithm'] = 'unknown';
+  let keyLength = numberEntry(encryptDict, 'Length', 40);
+  if (version >= 5) {
+    algorithm = 'AES-256';
+    keyLength = 256;
+  } else if (version === 4) {
+    const streamFilter = encryptDict.lookupMaybe(PDFName.of('StmF'), PDFName);
+    const method = streamFilter
+      ? encryptDict
+          .lookupMaybe(PDFName.of('CF'), PDFDict)
+          ?.lookupMaybe(streamFilter, PDFDict)
+          ?.lookupMaybe(PDFName.of('CFM'), PDFName)
+      : undefined;
+    algorithm = method === PDFName.of('AESV2') ? 'AES-128' : 'RC4';
+    keyLength = 128;
+  } else if (version >= 1) {
+    algorithm = 'RC4';
+  }
+
+  return {
+    encrypted: true,
+    filter: filter ? filter.decodeText() : 'unknown',
+    version,
+    revision,
+    keyLength,
+    algorithm,
+    permissions: {
+      printing: (flags & (1 << 2)) !== 0,
+      modifying: (flags & (1 << 3)) !== 0,
+      copying: (flags & (1 << 4)) !== 0,
+      annotating: (flags & (1 << 5)) !== 0,
+    },
+  };
+}
+
+/**
+ * Encrypt a PDF with the Standard Security Handler (AES-128 or AES-256)
+ */
+export async function encryptPdf(pdf: Buffer, security: PdfSecurityOptions): Promise<Buffer> {
+  if (!hasPasswordProtection(security)) {
+    throw createError.invalidInput('A user or owner password is required for encryption');
+  }
+
+  const document = await PDFDocument.load(pdf, { ignoreEncryption: true, updateMetadata: false });
+  if (document.isEncrypted) {
+    throw createError.invalidInput('The PDF is already encrypted');
+  }
+
+  const context = document.context;
+  const userPassword = security.userPassword || '';
+  // Without an owner password, a random one keeps the permissions enforceable
+  const ownerPassword = security.ownerPassword || crypto.randomBytes(16).toString('hex');
+  const permissions = computePermissionFlags(security.permissions);
+  const fileId = ensureFileId(context);
+
+  let encryptDict: PDFDict;
+  let crypt: CryptFunction;
+
+  if (security.algorithm === 'aes128') {
+    const ownerEntry = computeOwnerEntryR4(ownerPassword, userPassword, 16, 4);
+    const fileKey = computeFileKeyR4(userPassword, ownerEntry, permissions, fileId, 16, 4, true);
+    const userEntry = computeUserEntryR4(fileKey, fileId, 4);
+
+    encryptDict = context.obj({
+      Filter: 'Standard',
+      V: 4,
+      R: 4,
+      Length: 128,
+      CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV2', Length: 16 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      P: permissions,
+      EncryptMetadata: true,
+    });
+    encryptDict.set(PDFName.of('O'), toHexString(ownerEntry));
+    encryptDict.set(PDFName.of('U'), toHexString(userEntry));
+
+    crypt = (data, ref): Uint8Array =>
+      aesEncrypt(computeObjectKey(fileKey, ref.objectNumber, ref.generationNumber, true), data);
+  } else {
+    const fileKey = crypto.randomBytes(32);
+    const entries = computeEntriesR6(fileKey, userPassword, ownerPassword, permissions);
+
+    encryptDict = context.obj({
+      Filter: 'Standard',
+      V: 5,
+      R: 6,
+      Length: 256,
+      CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV3', Length: 32 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      P: permissions,
+      EncryptMetadata: true,
+    });
+    for (const [key, value] of Object.entries(entries)) {
+      encryptDict.set(PDFName.of(key), toHexString(value));
+    }
+
+    // Declare the Adobe extension level that introduced AES-256 (revision 6)
+    document.catalog.set(
+      PDFName.of('Extensions'),
+      context.obj({ ADBE: { BaseVersion: PDFName.of('1.7'), ExtensionLevel: 8 } })
+    );
+
+    crypt = (data): Uint8Array => aesEncrypt(fileKey, data);
+  }
+
+  transformIndirectObjects(context, crypt);
+  context.trailerInfo.Encrypt = context.register(encryptDict);
+
+  // Object streams would bypass per-object encryption, so write a classic xref table
+  const bytes = await PDFWriter.forContext(context, 50).serializeToBuffer();
+  return Buffer.from(bytes);
+}
+
+function computeEntriesR6(
+  fileKey: Buffer,
+  userPassword: string,
+  ownerPassword: string,
+  permissions: number
+): { U: Buffer; UE: Buffer; O: Buffer; OE: Buffer; Perms: Buffer } {
+  const zeroIv = Buffer.alloc(16);
+
+  // Algorithm 8: U and UE
+  const user = encodePasswordR6(userPassword);
+  const userValidationSalt = crypto.randomBytes(8);
+  const userKeySalt = crypto.randomBytes(8);
+  const U = Buffer.concat([
+    computeHashR6(user, userValidationSalt),
+    userValidationSalt,
+    userKeySalt,
+  ]);
+  const UE = aesCbcNoPadding(computeHashR6(user, userKeySalt), zeroIv, fileKey);
+
+  // Algorithm 9: O and OE
+  const owner = encodePasswordR6(ownerPassword);
+  const ownerValidationSalt = crypto.randomBytes(8);
+  const ownerKeySalt = crypto.randomBytes(8);
+  const O = Buffer.concat([
+    computeHashR6(owner, ownerValidationSalt, U),
+    ownerValidationSalt,
+    ownerKeySalt,
+  ]);
+  const OE = aesCbcNoPadding(computeHashR6(owner, ownerKeySalt, U), zeroIv, fileKey);
+
+  // Algorithm 10: Perms
+  const perms = Buffer.alloc(16);
+  perms.writeInt32LE(permissions, 0);
+  perms.writeUInt32LE(0xffffffff, 4);
+  perms.write('Tadb', 8, 'latin1');
+  crypto.randomBytes(4).copy(perms, 12);
+  const Perms = aesEcbBlock(fileKey, perms);
+
+  return { U, UE, O, OE, Perms };
+}
+
+/**
+ * Load a PDF, decrypting it first when it is password protected
+ */
+export async function loadPdfDocument(
+  pdf: Buffer | Uint8Array,
+  password?: string
+): Promise<PDFDocument> {
+  const document = await PDFDocument.load(pdf, { ignoreEncryption: true, updateMetadata: false });
+  if (!document.isEncrypted) {
+    return document;
+  }
+
+  const decrypted = await decryptDocument(document, password);
+  return PDFDocument.load(decrypted, { updateMetadata: false });
+}
+
+/**
+ * Remove the encryption of a PDF. Unencrypted PDFs are returned unchanged.
+ */
+export async function decryptPdf(pdf: Buffer, password?: string): Promise<Buffer> {
+  const document = await PDFDocument.load(pdf, { ignoreEncryption: true, updateMetadata: false });
+  if (!document.isEncrypted) {
+    return pdf;
+  }
+
+  return decryptDocument(document, password);
+}
+
+async function decryptDocument(document: PDFDocument, password?: string): Promise<Buffer> {
+  const context = document.context;
+  const encryptRef = context.trailerInfo.Encrypt;
+  const encryptDict = context.lookup(encryptRef);
+
+  if (!(encryptDict instanceof PDFDict)) {
+    throw createError.invalidInput('The PDF encryption dictionary is missing or damaged');
+  }
+
+  // Many PDFs only restrict permissions and open with an empty user password
+  const decryptor = createDecryptor(encryptDict, readFileId(context), password || '');
+  if (!decryptor) {
+    throw password
+      ? createError.unauthorized('The password for the PDF is incorrect')
+      : createError.unauthorized('The PDF is password protected. Provide its password to open it.');
+  }
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (ref === encryptRef) {
+      continue;
+    }
+
+    if (object instanceof PDFInvalidObject) {
+      // Encrypted object streams can't be parsed on load, unpack them now
+      await recoverObjectStream(context, ref, object, decryptor);
+    } else if (object instanceof PDFStream) {
+      decryptStream(context, ref, object, decryptor);
+    } else if (decryptor.strings) {
+      context.assign(ref, transformStrings(object, ref, decryptor.strings));
+    }
+  }
+
+  if (encryptRef instanceof PDFRef) {
+    context.delete(encryptRef);
+  }
+  delete context.trailerInfo.Encrypt;
+
+  const bytes = await PDFWriter.forContext(context, 50).serializeToBuffer();
+  return Buffer.from(bytes);
+}
+
+function decryptStream(
+  context: PDFContext,
+  ref: PDFRef,
+  stream: PDFStream,
+  decryptor: Decryptor
+): PDFRawStream | undefined {
+  const type = stream.dict.lookup(PDFName.of('Type'));
+  if (type === PDFName.of('XRef')) {
+    return undefined;
+  }
+
+  if (decryptor.strings) {
+    transformStrings(stream.dict, ref, decryptor.strings);
+  }
+
+  const skipContents = type === PDFName.of('Metadata') && !decryptor.encryptMetadata;
+  const contents =
+    decryptor.streams && !skipContents
+      ? decryptor.streams(stream.getContents(), ref)
+      : stream.getContents();
+
+  const decrypted = PDFRawStream.of(stream.dict, contents);
+  context.assign(ref, decrypted);
+  return decrypted;
+}
+
+async function recoverObjectStream(
+  context: PDFContext,
+  ref: PDFRef,
+  invalid: PDFInvalidObject,
+  decryptor: Decryptor
+): Promise<void> {
+  const bytes = new Uint8Array(invalid.sizeInBytes());
+  invalid.copyBytesInto(bytes, 0);
+
+  let parsed: PDFObject;
+  try {
+    parsed = PDFObjectParser.forBytes(bytes, context).parseObject();
+  } catch {
+    return;
+  }
+
+  if (!(parsed instanceof PDFRawStream)) {
+    return;
+  }
+
+  const decrypted = decryptStream(context, ref, parsed, decryptor);
+  if (decrypted && decrypted.dict.lookup(PDFName.of('Type')) === PDFName.of('ObjStm')) {
+    context.delete(ref);
+    await PDFObjectStreamParser.forStream(decrypted).parseIntoContext();
+  }
+}
+
+/**
+ * Authenticate the password and build the crypt functions, or return null
+ * if the password is wrong
+ */
+function createDecryptor(encryptDict: PDFDict, fileId: Buffer, password: string): Decryptor | null {
+  const filter = encryptDict.lookup(PDFName.of('Filter'));
+  if (filter !== PDFName.of('Standard')) {
+    throw createError.unsupportedFormat(
+      `Unsupported PDF security handler: ${filter ? filter.toString() : 'none'}`
+    );
+  }
+
+  const version = numberEntry(encryptDict, 'V', 0);
+  const revision = numberEntry(encryptDict, 'R', 2);
+  const permissions = numberEntry(encryptDict, 'P', 0);
+  const ownerEntry = bytesEntry(encryptDict, 'O');
+  const userEntry = bytesEntry(encryptDict, 'U');
+  const encryptMetadata = encryptDict.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+
+  let fileKey: Buffer | null;
+  if (revision >= 5) {
+    fileKey = authenticateR6(encryptDict, revision, password, ownerEntry, userEntry);
+  } else {
+    const keyLength =
+      version >= 4 ? 16 : Math.max(5, Math.floor(numberEntry(encryptDict, 'Length', 40) / 8));
+    fileKey = authenticateR4(
+      password,
+      ownerEntry,
+      userEntry,
+      permissions,
+      fileId,
+      keyLength,
+      revision,
+      encryptMetadata
+    );
+  }
+
+  if (!fileKey) {
+    return null;
+  }
+
+  const key = fileKey;
+  const cryptFor = (method: string): CryptFunction | null => {
+    switch (method) {
+      case 'V2':
+        return (data, ref) =>
+          rc4(computeObjectKey(key, ref.objectNumber, ref.generationNumber, false), data);
+      case 'AESV2':
+        return (data, ref) =>
+          aesDecrypt(computeObjectKey(key, ref.objectNumber, ref.generationNumber, true), data);
+      case 'AESV3':
+        return data => aesDecrypt(key, data);
+      case 'Identity':
+      case 'None':
+        return null;
+      default:
+        throw createError.unsupportedFormat(`Unsupported PDF crypt filter: ${method}`);
+    }
+  };
+
+  if (version < 4) {
+    const crypt = cryptFor('V2');
+    return { strings: crypt, streams: crypt, encryptMetadata };
+  }
+
+  const cryptFilters = encryptDict.lookupMaybe(PDFName.of('CF'), PDFDict);
+  const methodOf = (entry: string): string => {
+    const name = encryptDict.lookupMaybe(PDFName.of(entry), PDFName);
+    if (!name || name === PDFName.of('Identity')) {
+      return 'Identity';
+    }
+    const filterDict = cryptFilters?.lookupMaybe(name, PDFDict);
+    const method = filterDict?.lookupMaybe(PDFName.of('CFM'), PDFName);
+    return method ? method.decodeText() : 'None';
+  };
+
+  return {
+    strings: cryptFor(methodOf('StrF')),
+    streams: cryptFor(methodOf('StmF')),
+    encryptMetadata,
+  };
+}
+
+function authenticateR4(
+  password: string,
+  ownerEntry: Buffer,
+  userEntry: Buffer,
+  permissions: number,
+  fileId: Buffer,
+  keyLength: number,
+  revision: number,
+  encryptMetadata: boolean
+): Buffer | null {
+  const tryUserPassword = (userPassword: string | Uint8Array): Buffer | null => {
+    const key = computeFileKeyR4(
+      userPassword,
+      ownerEntry,
+      permissions,
+      fileId,
+      keyLength,
+      revision,
+      encryptMetadata
+    );
+    const expected = computeUserEntryR4(key, fileId, revision);
+    const compareLength = revision >= 3 ? 16 : 32;
+    return expected.subarray(0, compareLength).equals(userEntry.subarray(0, compareLength))
+      ? key
+      : null;
+  };
+
+  // Algorithm 6: user password
+  const userKey = tryUserPassword(password);
+  if (userKey) {
+    return userKey;
+  }
+
+  // Algorithm 7: owner password recovers the padded user password
+  const ownerKey = computeOwnerKeyR4(password, keyLength, revision);
+  let userPassword: Buffer = ownerEntry.subarray(0, 32);
+  if (revision === 2) {
+    userPassword = rc4(ownerKey, userPassword);
+  } else {
+    for (let i = 19; i >= 0; i--) {
+      userPassword = rc4(xorKey(ownerKey, i), userPassword);
+    }
+  }
+
+  return tryUserPassword(userPassword);
+}
+
+function authenticateR6(
+  encryptDict: PDFDict,
+  revision: number,
+  password: string,
+  ownerEntry: Buffer,
+  userEntry: Buffer
+): Buffer | null {
+  const passwordBytes = encodePasswordR6(password);
+  const zeroIv = Buffer.alloc(16);
+  const hash = (salt: Buffer, udata?: Buffer): Buffer =>
+    revision === 5
+      ? crypto
+          .createHash('sha256')
+          .update(passwordBytes)
+          .update(salt)
+          .update(udata || Buffer.alloc(0))
+          .digest()
+      : computeHashR6(passwordBytes, salt, udata);
+
+  const user48 = userEntry.subarray(0, 48);
+
+  // Algorithm 11: owner password
+  if (hash(ownerEntry.subarray(32, 40), user48).equals(ownerEntry.subarray(0, 32))) {
+    const intermediate = hash(ownerEntry.subarray(40, 48), user48);
+    return aesCbcNoPadding(intermediate, zeroIv, bytesEntry(encryptDict, 'OE'), true);
+  }
+
+  // Algorithm 11: user password
+  if (hash(userEntry.subarray(32, 40)).equals(userEntry.subarray(0, 32))) {
+    const intermediate = hash(userEntry.subarray(40, 48));
+    return aesCbcNoPadding(intermediate, zeroIv, bytesEntry(encryptDict, 'UE'), true);
+  }
+
+  return null;
+}
+
+function numberEntry(dict: PDFDict, key: string, fallback: number): number {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : fallback;
+}
+
+function bytesEntry(dict: PDFDict, key: string): Buffer {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString
+    ? Buffer.from(value.asBytes())
+    : Buffer.alloc(0);
+}
+
+/**
+ * Get the first element of the trailer file identifier, empty if there is none
+ */
+export function readFileId(context: PDFContext): Buffer {
+  const existing = context.trailerInfo.ID;
+  const idArray = existing instanceof PDFRef ? context.lookup(existing) : existing;
+
+  if (idArray instanceof PDFArray) {
+    const first = idArray.lookup(0);
+    if (first instanceof PDFHexString || first instanceof PDFString) {
+      return Buffer.from(first.asBytes());
+    }
+  }
+
+  return Buffer.alloc(0);
+}
+
+/**
+ * Make sure the trailer has a file identifier and return its first element
+ */
+export function ensureFileId(context: PDFContext): Buffer {
+  const existing = readFileId(context);
+  if (existing.length > 0) {
+    return existing;
+  }
+
+  const id = crypto.randomBytes(16);
+  const hex = toHexString(id);
+  context.trailerInfo.ID = context.obj([hex, hex]);
+  return id;
+}
+
+/**
+ * Apply a crypt function to every string and stream of every indirect object
+ */
+export function transformIndirectObjects(context: PDFContext, crypt: CryptFunction): void {
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFStream) {
+      // Cross-reference streams are never encrypted
+      if (object.dict.lookup(PDFName.of('Type')) === PDFName.of('XRef')) {
+        continue;
+      }
+
+      transformStrings(object.dict, ref, crypt);
+      context.assign(ref, PDFRawStream.of(object.dict, crypt(object.getContents(), ref)));
+    } else {
+      context.assign(ref, transformStrings(object, ref, crypt));
+    }
+  }
+}
+
+function transformStrings(object: PDFObject, ref: PDFRef, crypt: CryptFunction): PDFObject {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return toHexString(crypt(object.asBytes(), ref));
+  }
+
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      object.set(key, transformStrings(value, ref, crypt));
+    }
+  } else if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) {
+      object.set(i, transformStrings(object.get(i), ref, crypt));
+    }
+  }
+
+  return object;
+}
+
+function toHexString(bytes: Uint8Array): PDFHexString {
+  return PDFHexString.of(Buffer.from(bytes).toString('hex'));
+}
@@ -0,0 +1,499 @@
+import * as fs from 'fs';
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFHeader,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+} from 'pdf-lib';
+import { PdfAReport } from '../types';
+import { decodeText } from './outline';
+import { ensureFileId, loadPdfDocument, readFileId } from './pdfSecurity';
+import { getInfoDict, writeXmpMetadata } from './xmp';
+
+// Actions that run code or change the document (ISO 19005-2, 6.6.1)
+const FORBIDDEN_ACTIONS = [
+  'Launch',
+  'Sound',
+  'Movie',
+  'ResetForm',
+  'ImportData',
+  'Hide',
+  'SetOCGState',
+  'Rendition',
+  'Trans',
+  'GoTo3DView',
+  'JavaScript',
+];
+const ALLOWED_NAMED_ACTIONS = ['NextPage', 'PrevPage', 'FirstPage', 'LastPage'];
+
+// Annotation types that can't be archived (ISO 19005-2, 6.3.1)
+const FORBIDDEN_ANNOTATIONS = ['3D', 'Sound', 'Screen', 'Movie', 'RichMedia'];
+
+// Annotation flags (PDF 32000-1, 12.5.3)
+const FLAG_INVISIBLE = 1 << 0;
+const FLAG_HIDDEN = 1 << 1;
+const FLAG_PRINT = 1 << 2;
+const FLAG_NO_VIEW = 1 << 5;
+const FLAG_TOGGLE_NO_VIEW = 1 << 8;
+
+const STANDARD_INFO_KEYS = [
+  'Title',
+  'Author',
+  'Subject',
+  'Keywords',
+  'Creator',
+  'Producer',
+  'CreationDate',
+  'ModDate',
+  'Trapped',
+];
+// Custom Info keys end up as XML element names in the XMP metadata
+const XML_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+const SRGB_NAME = 'sRGB IEC61966-2.1';
+let srgbProfile: Buffer | null = null;
+
+/**
+ * Convert a PDF to PDF/A-2b as far as that is possible without re-rendering:
+ * identify it in the XMP metadata, add an sRGB output intent and remove
+ * JavaScript, other forbidden actions and annotations that can't be archived.
+ * Fonts are not touched, so they must already be embedded.
+ */
+export async function convertToPdfA(pdf: Buffer): Promise<Buffer> {
+  const document = await loadPdfDocument(pdf);
+  const context = document.context;
+  const catalog = document.catalog;
+
+  catalog.delete(PDFName.of('AA'));
+  catalog.lookupMaybe(PDFName.of('Names'), PDFDict)?.delete(PDFName.of('JavaScript'));
+  const openAction = catalog.lookup(PDFName.of('OpenAction'));
+  if (openAction instanceof PDFDict && !isAllowedAction(openAction)) {
+    catalog.delete(PDFName.of('OpenAction'));
+  }
+  removeOutlineActions(catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict));
+
+  const acroForm = catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (acroForm) {
+    acroForm.delete(PDFName.of('NeedAppearances'));
+    acroForm.delete(PDFName.of('XFA'));
+    removeFieldActions(acroForm.lookupMaybe(PDFName.of('Fields'), PDFArray), new Set());
+  }
+
+  for (const page of document.getPages()) {
+    page.node.delete(PDFName.of('AA'));
+
+    const annotations = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+    if (!annotations) {
+      continue;
+    }
+
+    const kept: PDFObject[] = [];
+    for (let i = 0; i < annotations.size(); i++) {
+      const annotation = annotations.lookup(i);
+      if (!(annotation instanceof PDFDict)) {
+        continue;
+      }
+
+      const subtype = annotation.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+      const flags = annotation.lookupMaybe(PDFName.of('F'), PDFNumber)?.asNumber() ?? 0;
+      // Hidden annotations are dropped rather than made visible
+      if (
+        (subtype && FORBIDDEN_ANNOTATIONS.includes(subtype)) ||
+        flags & FLAG_HIDDEN ||
+        flags & FLAG_NO_VIEW
+      ) {
+        continue;
+      }
+
+      annotation.delete(PDFName.of('AA'));
+      const action = annotation.lookup(PDFName.of('A'));
+      if (action instanceof PDFDict && !isAllowedAction(action)) {
+        annotation.delete(PDFName.of('A'));
+      }
+
+      // Only the normal appearance is allowed, and everything has to be printed
+      const appearances = annotation.lookupMaybe(PDFName.of('AP'), PDFDict);
+      appearances?.delete(PDFName.of('R'));
+      appearances?.delete(PDFName.of('D'));
+      if (subtype !== 'Popup') {
+        annotation.set(
+          PDFName.of('F'),
+          PDFNumber.of((flags | FLAG_PRINT) & ~(FLAG_INVISIBLE | FLAG_TOGGLE_NO_VIEW))
+        );
+      }
+
+      kept.push(annotations.get(i));
+    }
+
+    if (kept.length > 0) {
+      page.node.set(PDFName.of('Annots'), context.obj(kept));
+    } else {
+      page.node.delete(PDFName.of('Annots'));
+    }
+  }
+
+  if (!hasPdfAOutputIntent(document)) {
+    const profile = context.register(context.flateStream(getSrgbProfile(), { N: 3 }));
+    const intent = context.register(
+      context.obj({
+        Type: 'OutputIntent',
+        S: 'GTS_PDFA1',
+        OutputConditionIdentifier: PDFString.of(SRGB_NAME),
+        Info: PDFString.of(SRGB_NAME),
+        RegistryName: PDFString.of('http://www.color.org'),
+        DestOutputProfile: profile,
+      })
+    );
+    const intents = catalog.lookupMaybe(PDFName.of('OutputIntents'), PDFArray);
+    if (intents) {
+      intents.push(intent);
+    } else {
+      catalog.set(PDFName.of('OutputIntents'), context.obj([intent]));
+    }
+  }
+
+  // Object and cross-reference streams need at least PDF 1.5
+  context.header = PDFHeader.forVersion(1, 7);
+  ensureFileId(context);
+
+  document.setModificationDate(new Date());
+  writeXmpMetadata(document, {
+    custom: readCustomProperties(document),
+    pdfa: { part: 2, conformance: 'B' },
+  });
+
+  return Buffer.from(await document.save({ updateFieldAppearances: false }));
+}
+
+/**
+ * Check a PDF against the PDF/A-2b requirements that can be verified from
+ * its structure. Colour spaces inside content streams are not analysed.
+ */
+export async function validatePdfA(pdf: Buffer): Promise<PdfAReport> {
+  const issues = new Map<string, number[]>();
+  const warnings: string[] = [];
+  const addIssue = (message: string, page?: number): void => {
+    const pages = issues.get(message) || [];
+    if (page !== undefined) {
+      pages.push(page);
+    }
+    issues.set(message, pages);
+  };
+
+  const document = await PDFDocument.load(pdf, { ignoreEncryption: true, updateMetadata: false });
+  const catalog = document.catalog;
+
+  if (document.isEncrypted) {
+    addIssue('The PDF is encrypted');
+  }
+  if (readFileId(document.context).length === 0) {
+    addIssue('The trailer has no file identifier');
+  }
+
+  const metadata = catalog.lookupMaybe(PDFName.of('Metadata'), PDFStream);
+  const xmp = metadata ? readStreamText(metadata) : '';
+  if (!xmp) {
+    addIssue('The PDF has no XMP metadata');
+  } else if (!/pdfaid:part(>|=")2\b/.test(xmp) || !/pdfaid:conformance(>|=")B\b/.test(xmp)) {
+    addIssue('The XMP metadata does not identify the PDF as PDF/A-2b');
+  }
+
+  if (!hasPdfAOutputIntent(document)) {
+    addIssue('The PDF has no PDF/A output intent with an ICC profile');
+  }
+
+  if (catalog.has(PDFName.of('AA'))) {
+    addIssue('The document has additional actions');
+  }
+  const openAction = catalog.lookup(PDFName.of('OpenAction'));
+  if (openAction instanceof PDFDict && !isAllowedAction(openAction)) {
+    addIssue('The document runs a forbidden action when opened');
+  }
+  const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  if (names?.has(PDFName.of('JavaScript'))) {
+    addIssue('The document contains JavaScript');
+  }
+  if (names?.has(PDFName.of('EmbeddedFiles'))) {
+    warnings.push('The PDF has file attachments, which PDF/A-2 only allows if they are PDF/A');
+  }
+
+  const acroForm = catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (acroForm?.lookup(PDFName.of('NeedAppearances')) === PDFBool.True) {
+    addIssue('The form leaves drawing the field appearances to the viewer');
+  }
+  if (acroForm?.has(PDFName.of('XFA'))) {
+    addIssue('The form contains XFA');
+  }
+
+  const fonts = new Set<string>();
+  const visited = new Set<PDFDict>();
+
+  document.getPages().forEach((page, index) => {
+    const number = index + 1;
+    if (page.node.has(PDFName.of('AA'))) {
+      addIssue('The page has additional actions', number);
+    }
+    findUnembeddedFonts(page.node.Resources(), fonts, visited);
+
+    const annotations = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+    for (let i = 0; i < (annotations?.size() || 0); i++) {
+      const annotation = annotations!.lookup(i);
+      if (!(annotation instanceof PDFDict)) {
+        continue;
+      }
+
+      const subtype = annotation.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() || '';
+      if (FORBIDDEN_ANNOTATIONS.includes(subtype)) {
+        addIssue(`The page has a ${subtype} annotation, which PDF/A does not allow`, number);
+        continue;
+      }
+      if (subtype === 'Popup') {
+        continue;
+      }
+
+      const flags = annotation.lookupMaybe(PDFName.of('F'), PDFNumber)?.asNumber() ?? 0;
+      if (
+        !(flags & FLAG_PRINT) ||
+        flags & (FLAG_INVISIBLE | FLAG_HIDDEN | FLAG_NO_VIEW | FLAG_TOGGLE_NO_VIEW)
+      ) {
+        addIssue('The page has annotations that are hidden or not printed', number);
+      }
+
+      const action = annotation.lookup(PDFName.of('A'));
+      if (
+        annotation.has(PDFName.of('AA')) ||
+        (action instanceof PDFDict && !isAllowedAction(action))
+      ) {
+        addIssue('The page has annotations with forbidden actions', number);
+      }
+
+      const appearance = annotation.lookupMaybe(PDFName.of('AP'), PDFDict)?.lookup(PDFName.of('N'));
+      if (appearance instanceof PDFStream) {
+        findUnembeddedFonts(
+          appearance.dict.lookupMaybe(PDFName.of('Resources'), PDFDict),
+          fonts,
+          visited
+        );
+      } else if (appearance instanceof PDFDict) {
+        for (const [, state] of appearance.entries()) {
+          const stream = document.context.lookup(state);
+          if (stream instanceof PDFStream) {
+            findUnembeddedFonts(
+              stream.dict.lookupMaybe(PDFName.of('Resources'), PDFDict),
+              fonts,
+              visited
+            );
+          }
+        }
+      } else if (subtype !== 'Link' && !hasEmptyRect(annotation)) {
+        addIssue('The page has annotations without an appearance', number);
+      }
+    }
+  });
+
+  for (const font of fonts) {
+    addIssue(`The font ${font} is not embedded`);
+  }
+
+  const messages = [...issues].map(([message, pages]) =>
+    pages.length > 0 ? `${message} (page ${[...new Set(pages)].join(', ')})` : message
+  );
+
+  return {
+    conformance: 'PDF/A-2b',
+    compliant: messages.length === 0,
+    issues: messages,
+    warnings,
+  };
+}
+
+function getSrgbProfile(): Buffer {
+  // pdfkit ships the standard sRGB profile for its own PDF/A support
+  srgbProfile ??= fs.readFileSync(require.resolve('pdfkit/js/data/sRGB_IEC61966_2_1.icc'));
+  return srgbProfile;
+}
+
+function hasPdfAOutputIntent(document: PDFDocument): boolean {
+  const intents = document.catalog.lookupMaybe(PDFName.of('OutputIntents'), PDFArray);
+  for (let i = 0; i < (intents?.size() || 0); i++) {
+    const intent = intents!.lookup(i);
+    if (
+      intent instanceof PDFDict &&
+      intent.lookup(PDFName.of('S')) === PDFName.of('GTS_PDFA1') &&
+      intent.lookup(PDFName.of('DestOutputProfile')) instanceof PDFStream
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether an action and every action chained to it through /Next is allowed
+ */
+function isAllowedAction(action: PDFDict, depth: number = 0): boolean {
+  const type = action.lookupMaybe(PDFName.of('S'), PDFName)?.decodeText();
+  if (type && FORBIDDEN_ACTIONS.includes(type)) {
+    return false;
+  }
+  if (type === 'Named') {
+    const name = action.lookupMaybe(PDFName.of('N'), PDFName)?.decodeText();
+    if (!name || !ALLOWED_NAMED_ACTIONS.includes(name)) {
+      return false;
+    }
+  }
+
+  // Guard against cyclic chains
+  if (depth > 32) {
+    return true;
+  }
+  const next = action.lookup(PDFName.of('Next'));
+  const chain =
+    next instanceof PDFArray ? next.asArray().map(item => action.context.lookup(item)) : [next];
+  return chain.every(item => !(item instanceof PDFDict) || isAllowedAction(item, depth + 1));
+}
+
+function removeOutlineActions(outlines: PDFDict | undefined): void {
+  const visited = new Set<PDFDict>();
+  const pending: PDFDict[] = [];
+  const first = outlines?.lookupMaybe(PDFName.of('First'), PDFDict);
+  if (first) {
+    pending.push(first);
+  }
+
+  while (pending.length > 0) {
+    const item = pending.pop()!;
+    if (visited.has(item)) {
+      continue;
+    }
+    visited.add(item);
+
+    const action = item.lookup(PDFName.of('A'));
+    if (action instanceof PDFDict && !isAllowedAction(action)) {
+      item.delete(PDFName.of('A'));
+    }
+
+    for (const key of ['First', 'Next']) {
+      const related = item.lookupMaybe(PDFName.of(key), PDFDict);
+      if (related) {
+        pending.push(related);
+      }
+    }
+  }
+}
+
+function removeFieldActions(fields: PDFArray | undefined, visited: Set<PDFDict>): void {
+  for (let i = 0; i < (fields?.size() || 0); i++) {
+    const field = fields!.lookup(i);
+    if (!(field instanceof PDFDict) || visited.has(field)) {
+      continue;
+    }
+    visited.add(field);
+
+    field.delete(PDFName.of('AA'));
+    removeFieldActions(field.lookupMaybe(PDFName.of('Kids'), PDFArray), visited);
+  }
+}
+
+/**
+ * Collect the names of fonts without an embedded font program, following
+ * form XObjects and patterns
+ */
+function findUnembeddedFonts(
+  resources: PDFDict | undefined,
+  found: Set<string>,
+  visited: Set<PDFDict>
+): void {
+  if (!resources || visited.has(resources)) {
+    return;
+  }
+  visited.add(resources);
+
+  const fonts = resources.lookupMaybe(PDFName.of('Font'), PDFDict);
+  for (const [, value] of fonts?.entries() || []) {
+    const font = resources.context.lookup(value);
+    if (font instanceof PDFDict && !isFontEmbedded(font)) {
+      found.add(font.lookupMaybe(PDFName.of('BaseFont'), PDFName)?.decodeText() || 'without name');
+    }
+  }
+
+  for (const category of ['XObject', 'Pattern']) {
+    const entries = resources.lookupMaybe(PDFName.of(category), PDFDict);
+    for (const [, value] of entries?.entries() || []) {
+      const stream = resources.context.lookup(value);
+      if (stream instanceof PDFStream) {
+        findUnembeddedFonts(
+          stream.dict.lookupMaybe(PDFName.of('Resources'), PDFDict),
+          found,
+          visited
+        );
+      }
+    }
+  }
+}
+
+function isFontEmbedded(font: PDFDict): boolean {
+  const subtype = font.lookupMaybe(PDFName.of('Subtype'), PDFName);
+  // Type 3 glyphs are content streams in the PDF itself
+  if (subtype === PDFName.of('Type3')) {
+    return true;
+  }
+  if (subtype === PDFName.of('Type0')) {
+    const descendant = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookup(0);
+    return descendant instanceof PDFDict && isFontEmbedded(descendant);
+  }
+
+  const descriptor = font.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+  return (
+    !!descriptor &&
+    ['FontFile', 'FontFile2', 'FontFile3'].some(key => descriptor.has(PDFName.of(key)))
+  );
+}
+
+function hasEmptyRect(annotation: PDFDict): boolean {
+  const rect = annotation.lookupMaybe(PDFName.of('Rect'), PDFArray);
+  const values = (rect?.asArray() || []).map(value => {
+    const number = annotation.context.lookup(value);
+    return number instanceof PDFNumber ? number.asNumber() : 0;
+  });
+  return values.length < 4 || (values[0] === values[2] && values[1] === values[3]);
+}
+
+/**
+ * Custom Info entries, to be declared in the XMP metadata
+ */
+function readCustomProperties(document: PDFDocument): { [key: string]: string } {
+  const info = getInfoDict(document);
+  const custom: { [key: string]: string } = {};
+
+  for (const [key] of info.entries()) {
+    const name = key.decodeText();
+    if (STANDARD_INFO_KEYS.includes(name) || !XML_NAME_PATTERN.test(name)) {
+      continue;
+    }
+    const value = decodeText(info.lookup(key));
+    if (value) {
+      custom[name] = value;
+    }
+  }
+
+  return custom;
+}
+
+function readStreamText(stream: PDFStream): string {
+  try {
+    const bytes =
+      stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents();
+    return Buffer.from(bytes).toString('utf8');
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,49 @@
+import * as path from 'path';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { createError } from './errors';
+
+const PDFJS_ROOT = path.dirname(require.resolve('pdfjs-dist/package.json'));
+
+// pdf.js PasswordResponses: 1 = password needed, 2 = incorrect password
+const PASSWORD_INCORRECT = 2;
+
+/**
+ * Open a PDF with pdf.js for reading text and page content
+ */
+export async function openPdfJsDocument(
+  data: Buffer,
+  password?: string
+): Promise<PDFDocumentProxy> {
+  // Loaded on first use: the legacy build (which runs in Node without DOM APIs or a
+  // separate worker file) prints polyfill warnings when it is required
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf');
+
+  const loadingTask = pdfjs.getDocument({
+    // pdf.js takes ownership of the buffer, so hand it a copy
+    data: new Uint8Array(data),
+    ...(password !== undefined && { password }),
+    cMapUrl: path.join(PDFJS_ROOT, 'cmaps') + path.sep,
+    cMapPacked: true,
+    standardFontDataUrl: path.join(PDFJS_ROOT, 'standard_fonts') + path.sep,
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  });
+
+  try {
+    return await loadingTask.promise;
+  } catch (error) {
+    const { name, code } = (error ?? {}) as { name?: string; code?: number };
+    if (name === 'PasswordException') {
+      throw createError.unauthorized(
+        code === PASSWORD_INCORRECT
+          ? 'The password for the PDF is incorrect'
+          : 'The PDF is password protected. Provide its password to open it.'
+      );
+    }
+    throw createError.invalidInput(
+      `Failed to read PDF: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
@@ -10,8 +10,16 @@ export interface PdfSource {
   url?: string;
 }
 
+export interface ResolvedPdf {
+  data: Buffer;
+  mimeType: string;
+  fileName: string;
+  /** Input item the PDF was taken from (the current item for URLs) */
+  itemIndex: number;
+}
+
 export interface ResolvedInputs {
-  paths: Array<{ data: Buffer; mimeType: string; fileName: string }>;
+  paths: ResolvedPdf[];
   cleanup: () => Promise<void>;
 }
 
@@ -31,22 +39,27 @@ async function downloadPdf(url: string): Promise<{ data: Buffer; fileName: strin
   }
 }
 
+/**
+ * Collect the PDFs to merge. Binary data is taken from the given items (all
+ * items by default); URLs are downloaded once per call.
+ */
 export async function resolveInputs(
   executeFunctions: IExecuteFunctions,
   itemIndex: number,
-  sourcesConfig: PdfSource[]
+  sourcesConfig: PdfSource[],
+  itemIndices?: number[]
 ): Promise<ResolvedInputs> {
-  const pdfs: Array<{ data: Buffer; mimeType: string; fileName: string }> = [];
+  const pdfs: ResolvedPdf[] = [];
   const cleanupFunctions: (() => Promise<void>)[] = [];
+  const allItems = executeFunctions.getInputData();
+  const searchedItems = itemIndices ?? allItems.map((_, index) => index);
 
   // If no sources are configured, try to collect all PDFs from input data
   if (!sourcesConfig || sourcesConfig.length === 0) {
     logger.info('No PDF sources configured, collecting all PDFs from input data');
 
-    const inputData = executeFunctions.getInputData();
-
-    for (let i = 0; i < inputData.length; i++) {
-      const item = inputData[i];
+    for (const i of searchedItems) {
+      const item = allItems[i];
       if (item && item.binary) {
         for (const [key, binary] of Object.entries(item.binary)) {
           if ((binary as any).mimeType === 'application/pdf') {
@@ -54,6 +67,7 @@ export async function resolveInputs(
               data: Buffer.from((binary as any).data, 'base64'),
               mimeType: (binary as any).mimeType,
               fileName: (binary as any).fileName || `pdf_${i}_${key}.pdf`,
+              itemIndex: i,
             });
             logger.info(`Found PDF in item ${i}, property ${key}`);
           }
@@ -79,6 +93,7 @@ export async function resolveInputs(
             data,
             mimeType: 'application/pdf',
             fileName,
+            itemIndex,
           });
           break;
         }
@@ -92,12 +107,11 @@ export async function resolveInputs(
             );
           }
 
-          const inputData = executeFunctions.getInputData();
           let found = false;
 
           // Try to find the binary property in any input item
-          for (let i = 0; i < inputData.length; i++) {
-            const item = inputData[i];
+          for (const i of searchedItems) {
+            const item = allItems[i];
             if (item?.binary && item.binary[source.binaryProperty]) {
               const binary = item.binary[source.binaryProperty];
 
@@ -112,6 +126,7 @@ export async function resolveInputs(
                 data: Buffer.from((binary as any).data, 'base64'),
                 mimeType: (binary as any).mimeType,
                 fileName: (binary as any).fileName || `${source.binaryProperty}.pdf`,
+                itemIndex: i,
               });
 
               logger.info(`Found PDF in item ${i}, property ${source.binaryProperty}`);
@@ -122,7 +137,7 @@ export async function resolveInputs(
 
           if (!found) {
             // Check if we can find the property in the current item
-            const currentItem = inputData[itemIndex];
+            const currentItem = allItems[itemIndex];
             const availableProps = currentItem?.binary ? Object.keys(currentItem.binary) : [];
 
             throw new NodeOperationError(
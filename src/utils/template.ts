@@ -0,0 +1,124 @@
+import Handlebars from 'handlebars';
+import { createError } from './errors';
+
+export interface TemplateRenderOptions {
+  /** Partial templates by name, used as {{> name}} */
+  partials?: { [name: string]: string };
+  /** BCP 47 locale for the date, number and currency helpers */
+  locale?: string;
+  /** ISO 4217 code used by formatCurrency when none is given */
+  currency?: string;
+  /** IANA time zone used by formatDate */
+  timeZone?: string;
+  /** Extra values available as {{@name}} next to the data */
+  variables?: { [name: string]: unknown };
+  /** Output values as they are, for templates that don't produce HTML */
+  noEscape?: boolean;
+}
+
+const DATE_STYLES = ['short', 'medium', 'long', 'full'] as const;
+
+/**
+ * Render a Handlebars template with the given data. Values are HTML-escaped
+ * unless the template uses triple braces ({{{value}}}).
+ */
+export function renderTemplate(
+  template: string,
+  data: unknown,
+  options: TemplateRenderOptions = {}
+): string {
+  // A separate environment per render keeps partials and helpers of one item
+  // from leaking into another
+  const handlebars = Handlebars.create();
+  registerHelpers(handlebars, options);
+
+  try {
+    for (const [name, partial] of Object.entries(options.partials || {})) {
+      handlebars.registerPartial(name, partial);
+    }
+
+    return handlebars.compile(template, { noEscape: !!options.noEscape })(data, {
+      data: options.variables || {},
+    });
+  } catch (error) {
+    throw createError.invalidInput(
+      `Failed to render template: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function registerHelpers(handlebars: typeof Handlebars, options: TemplateRenderOptions): void {
+  const locale = options.locale || 'en-US';
+
+  // {{formatDate date}}, {{formatDate date "long"}} or {{formatDate date "iso"}}
+  handlebars.registerHelper('formatDate', (value: unknown, ...args: unknown[]) => {
+    const style = typeof args[0] === 'string' ? args[0] : 'medium';
+    const date = toDate(value);
+    if (!date) {
+      return '';
+    }
+    if (style === 'iso') {
+      return date.toISOString().slice(0, 10);
+    }
+
+    return new Intl.DateTimeFormat(locale, {
+      dateStyle: (DATE_STYLES as readonly string[]).includes(style)
+        ? (style as (typeof DATE_STYLES)[number])
+        : 'medium',
+      ...(options.timeZone && { timeZone: options.timeZone }),
+    }).format(date);
+  });
+
+  // {{formatNumber value}} or {{formatNumber value 2}}
+  handlebars.registerHelper('formatNumber', (value: unknown, ...args: unknown[]) => {
+    const number = toNumber(value);
+    if (number === undefined) {
+      return '';
+    }
+    const decimals = typeof args[0] === 'number' ? args[0] : undefined;
+
+    return new Intl.NumberFormat(locale, {
+      ...(decimals !== undefined && {
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+      }),
+    }).format(number);
+  });
+
+  // {{formatCurrency total}} or {{formatCurrency total "EUR"}}
+  handlebars.registerHelper('formatCurrency', (value: unknown, ...args: unknown[]) => {
+    const number = toNumber(value);
+    if (number === undefined) {
+      return '';
+    }
+    const currency = typeof args[0] === 'string' ? args[0] : options.currency || 'USD';
+
+    try {
+      return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(number);
+    } catch {
+      throw new Error(`Unknown currency code "${currency}"`);
+    }
+  });
+
+  // Comparisons for use in {{#if}} blocks, e.g. {{#if (eq status "paid")}}
+  handlebars.registerHelper('eq', (a: unknown, b: unknown) => a === b);
+  handlebars.registerHelper('ne', (a: unknown, b: unknown) => a !== b);
+  handlebars.registerHelper('gt', (a: unknown, b: unknown) => Number(a) > Number(b));
+  handlebars.registerHelper('lt', (a: unknown, b: unknown) => Number(a) < Number(b));
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return isNaN(number) ? undefined : number;
+}
@@ -0,0 +1,296 @@
+import fontkit from '@pdf-lib/fontkit';
+import { degrees, PDFDocument, PDFImage, PDFPage, rgb, RGB, StandardFonts } from 'pdf-lib';
+import sharp from 'sharp';
+import { WatermarkOptions, WatermarkPosition } from '../types';
+import { createError } from './errors';
+import { readEmbeddableFont } from './fonts';
+import { resolvePageIndices } from './pageRanges';
+import { loadPdfDocument } from './pdfSecurity';
+
+interface StampSize {
+  width: number;
+  height: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Gap between stamps in tiled mode, relative to the stamp size
+const TILE_SPACING = 0.6;
+
+/**
+ * Whether the options describe something to draw
+ */
+export function hasWatermark(options?: WatermarkOptions): options is WatermarkOptions {
+  return !!options && (!!options.text?.trim() || !!options.image);
+}
+
+/**
+ * Overlay a text or image watermark on the selected pages of a PDF. Text is
+ * drawn with the built-in Helvetica, or an embedded copy of it when
+ * embedFont is set (required for PDF/A).
+ */
+export async function applyWatermark(
+  pdf: Buffer,
+  options: WatermarkOptions,
+  embedFont: boolean = false
+): Promise<Buffer> {
+  if (!hasWatermark(options)) {
+    throw createError.invalidInput('Watermark text or image is required');
+  }
+
+  const pdfDoc = await loadPdfDocument(pdf);
+  const pages = pdfDoc.getPages();
+  const stamp = options.image
+    ? await createImageStamp(pdfDoc, options)
+    : await createTextStamp(pdfDoc, options, embedFont);
+
+  for (const index of resolvePageIndices(options.pages, pages.length)) {
+    const page = pages[index]!;
+    const visualSize = getVisualSize(page);
+
+    for (const center of getStampCenters(visualSize, stamp.size, options)) {
+      stamp.draw(
+        page,
+        toUserSpace(page, center),
+        (options.rotation || 0) + page.getRotation().angle
+      );
+    }
+  }
+
+  return Buffer.from(await pdfDoc.save());
+}
+
+interface Stamp {
+  size: StampSize;
+  draw: (page: PDFPage, center: Point, rotation: number) => void;
+}
+
+async function createTextStamp(
+  pdfDoc: PDFDocument,
+  options: WatermarkOptions,
+  embedFont: boolean
+): Promise<Stamp> {
+  const text = options.text!.trim();
+  const fontSize = options.fontSize || 48;
+
+  let font;
+  if (embedFont) {
+    pdfDoc.registerFontkit(fontkit);
+    font = await pdfDoc.embedFont(await readEmbeddableFont(StandardFonts.HelveticaBold), {
+      subset: true,
+    });
+  } else {
+    font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  }
+
+  let width: number;
+  try {
+    width = font.widthOfTextAtSize(text, fontSize);
+  } catch {
+    throw createError.invalidInput(
+      'Watermark text contains characters the built-in font cannot render (Latin-1 only)'
+    );
+  }
+
+  const size = { width, height: font.heightAtSize(fontSize, { descender: false }) };
+  const color = parseColor(options.color);
+  const opacity = getOpacity(options);
+
+  return {
+    size,
+    draw: (page, center, rotation): void => {
+      const origin = getRotatedOrigin(center, size, rotation);
+      page.drawText(text, {
+        x: origin.x,
+        y: origin.y,
+        size: fontSize,
+        font,
+        color,
+        opacity,
+        rotate: degrees(rotation),
+      });
+    },
+  };
+}
+
+async function createImageStamp(pdfDoc: PDFDocument, options: WatermarkOptions): Promise<Stamp> {
+  const image = await embedImage(pdfDoc, options.image!);
+  const size = image.scale(options.imageScale || 1);
+  const opacity = getOpacity(options);
+
+  return {
+    size,
+    draw: (page, center, rotation): void => {
+      const origin = getRotatedOrigin(center, size, rotation);
+      page.drawImage(image, {
+        x: origin.x,
+        y: origin.y,
+        width: size.width,
+        height: size.height,
+        opacity,
+        rotate: degrees(rotation),
+      });
+    },
+  };
+}
+
+async function embedImage(
+  pdfDoc: PDFDocument,
+  image: NonNullable<WatermarkOptions['image']>
+): Promise<PDFImage> {
+  const { data } = image;
+
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+    return pdfDoc.embedPng(data);
+  }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return pdfDoc.embedJpg(data);
+  }
+
+  // Other formats (WebP, GIF, TIFF, ...) are converted to PNG to keep transparency
+  try {
+    return pdfDoc.embedPng(await sharp(data).png().toBuffer());
+  } catch {
+    throw createError.unsupportedFormat(
+      `Unsupported watermark image format: ${image.mimeType || 'unknown'}`
+    );
+  }
+}
+
+function getOpacity(options: WatermarkOptions): number {
+  const opacity = options.opacity ?? 0.3;
+  return Math.min(Math.max(opacity, 0), 1);
+}
+
+function parseColor(color?: string): RGB {
+  const hex = (color || '#808080').replace('#', '').trim();
+  const full =
+    hex.length === 3
+      ? hex
+          .split('')
+          .map(c => c + c)
+          .join('')
+      : hex;
+
+  if (!/^[0-9a-f]{6}$/i.test(full)) {
+    throw createError.invalidInput(`Invalid watermark color: ${color}`);
+  }
+
+  return rgb(
+    parseInt(full.slice(0, 2), 16) / 255,
+    parseInt(full.slice(2, 4), 16) / 255,
+    parseInt(full.slice(4, 6), 16) / 255
+  );
+}
+
+/**
+ * Page size as displayed, after applying the page's /Rotate
+ */
+function getVisualSize(page: PDFPage): StampSize {
+  const { width, height } = page.getCropBox();
+  const quarterTurns = normalizeAngle(page.getRotation().angle) / 90;
+  return quarterTurns % 2 === 1 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Map a point in displayed page coordinates back to the page's user space
+ */
+function toUserSpace(page: PDFPage, point: Point): Point {
+  const box = page.getCropBox();
+  const { x, y } = point;
+
+  switch (normalizeAngle(page.getRotation().angle)) {
+    case 90:
+      return { x: box.x + box.width - y, y: box.y + x };
+    case 180:
+      return { x: box.x + box.width - x, y: box.y + box.height - y };
+    case 270:
+      return { x: box.x + y, y: box.y + box.height - x };
+    default:
+      return { x: box.x + x, y: box.y + y };
+  }
+}
+
+function normalizeAngle(angle: number): number {
+  return (((Math.round(angle / 90) * 90) % 360) + 360) % 360;
+}
+
+/**
+ * pdf-lib rotates around the bottom-left corner, so shift the origin to keep
+ * the stamp centered on the requested point
+ */
+function getRotatedOrigin(center: Point, size: StampSize, rotation: number): Point {
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const halfWidth = size.width / 2;
+  const halfHeight = size.height / 2;
+
+  return {
+    x: center.x - (halfWidth * cos - halfHeight * sin),
+    y: center.y - (halfWidth * sin + halfHeight * cos),
+  };
+}
+
+/**
+ * Size of the axis-aligned box around the rotated stamp
+ */
+function getBoundingSize(size: StampSize, rotation: number): StampSize {
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+
+  return {
+    width: size.width * cos + size.height * sin,
+    height: size.width * sin + size.height * cos,
+  };
+}
+
+function getStampCenters(
+  pageSize: StampSize,
+  stampSize: StampSize,
+  options: WatermarkOptions
+): Point[] {
+  const position: WatermarkPosition = options.position || 'center';
+  const margin = options.margin ?? 36;
+  const bounds = getBoundingSize(stampSize, options.rotation || 0);
+
+  if (position === 'tiled') {
+    const stepX = bounds.width * (1 + TILE_SPACING) || pageSize.width;
+    const stepY = bounds.height * (1 + TILE_SPACING) || pageSize.height;
+    const centers: Point[] = [];
+
+    for (let y = stepY / 2; y < pageSize.height + stepY / 2; y += stepY) {
+      for (let x = stepX / 2; x < pageSize.width + stepX / 2; x += stepX) {
+        centers.push({ x, y });
+      }
+    }
+    return centers;
+  }
+
+  const left = margin + bounds.width / 2;
+  const right = pageSize.width - margin - bounds.width / 2;
+  const bottom = margin + bounds.height / 2;
+  const top = pageSize.height - margin - bounds.height / 2;
+  const middleX = pageSize.width / 2;
+
+  switch (position) {
+    case 'topLeft':
+      return [{ x: left, y: top }];
+    case 'topCenter':
+      return [{ x: middleX, y: top }];
+    case 'topRight':
+      return [{ x: right, y: top }];
+    case 'bottomLeft':
+      return [{ x: left, y: bottom }];
+    case 'bottomCenter':
+      return [{ x: middleX, y: bottom }];
+    case 'bottomRight':
+      return [{ x: right, y: bottom }];
+    default:
+      return [{ x: middleX, y: pageSize.height / 2 }];
+  }
+}
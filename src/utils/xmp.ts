@@ -0,0 +1,178 @@
+import { PDFDict, PDFDocument, PDFName } from 'pdf-lib';
+import { decodeText } from './outline';
+
+const PDFX_NAMESPACE = 'http://ns.adobe.com/pdfx/1.3/';
+
+export interface XmpOptions {
+  /** Custom document properties, written to the pdfx namespace like Acrobat does */
+  custom?: { [key: string]: string };
+  /** Identify the document as PDF/A, e.g. { part: 2, conformance: 'B' } for PDF/A-2b */
+  pdfa?: { part: number; conformance: string };
+}
+
+/**
+ * Write an XMP metadata stream that mirrors the document information
+ * dictionary and attach it to the catalog, replacing any existing one
+ */
+export function writeXmpMetadata(document: PDFDocument, options: XmpOptions = {}): void {
+  const descriptions: string[] = [];
+
+  const dc: string[] = ['<dc:format>application/pdf</dc:format>'];
+  const title = document.getTitle();
+  if (title) {
+    dc.push(`<dc:title>${alt(title)}</dc:title>`);
+  }
+  const author = document.getAuthor();
+  if (author) {
+    dc.push(`<dc:creator><rdf:Seq><rdf:li>${escapeXml(author)}</rdf:li></rdf:Seq></dc:creator>`);
+  }
+  const subject = document.getSubject();
+  if (subject) {
+    dc.push(`<dc:description>${alt(subject)}</dc:description>`);
+  }
+  const language = decodeText(document.catalog.lookup(PDFName.of('Lang')));
+  if (language) {
+    dc.push(
+      `<dc:language><rdf:Bag><rdf:li>${escapeXml(language)}</rdf:li></rdf:Bag></dc:language>`
+    );
+  }
+  descriptions.push(describe('dc', 'http://purl.org/dc/elements/1.1/', dc));
+
+  const xmp: string[] = [];
+  const creator = document.getCreator();
+  if (creator) {
+    xmp.push(`<xmp:CreatorTool>${escapeXml(creator)}</xmp:CreatorTool>`);
+  }
+  const creationDate = document.getCreationDate();
+  if (creationDate) {
+    xmp.push(`<xmp:CreateDate>${formatDate(creationDate)}</xmp:CreateDate>`);
+  }
+  const modificationDate = document.getModificationDate();
+  if (modificationDate) {
+    xmp.push(`<xmp:ModifyDate>${formatDate(modificationDate)}</xmp:ModifyDate>`);
+    xmp.push(`<xmp:MetadataDate>${formatDate(modificationDate)}</xmp:MetadataDate>`);
+  }
+  descriptions.push(describe('xmp', 'http://ns.adobe.com/xap/1.0/', xmp));
+
+  const pdf: string[] = [];
+  const producer = document.getProducer();
+  if (producer) {
+    pdf.push(`<pdf:Producer>${escapeXml(producer)}</pdf:Producer>`);
+  }
+  const keywords = document.getKeywords();
+  if (keywords) {
+    pdf.push(`<pdf:Keywords>${escapeXml(keywords)}</pdf:Keywords>`);
+  }
+  descriptions.push(describe('pdf', 'http://ns.adobe.com/pdf/1.3/', pdf));
+
+  const customKeys = Object.keys(options.custom || {});
+  const custom = Object.entries(options.custom || {}).map(
+    ([key, value]) => `<pdfx:${key}>${escapeXml(value)}</pdfx:${key}>`
+  );
+  descriptions.push(describe('pdfx', PDFX_NAMESPACE, custom));
+
+  if (options.pdfa) {
+    descriptions.push(
+      describe('pdfaid', 'http://www.aiim.org/pdfa/ns/id/', [
+        `<pdfaid:part>${options.pdfa.part}</pdfaid:part>`,
+        `<pdfaid:conformance>${escapeXml(options.pdfa.conformance)}</pdfaid:conformance>`,
+      ])
+    );
+    // PDF/A only allows properties outside the predefined schemas when they are declared
+    if (customKeys.length > 0) {
+      descriptions.push(describeExtensionSchema(customKeys));
+    }
+  }
+
+  const packet = [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    ...descriptions.filter(description => description.length > 0),
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+
+  const stream = document.context.stream(Buffer.from(packet, 'utf8'), {
+    Type: 'Metadata',
+    Subtype: 'XML',
+  });
+  document.catalog.set(PDFName.of('Metadata'), document.context.register(stream));
+}
+
+/**
+ * Get the document information dictionary, creating it if needed
+ */
+export function getInfoDict(document: PDFDocument): PDFDict {
+  const existing = document.context.lookup(document.context.trailerInfo.Info);
+  if (existing instanceof PDFDict) {
+    return existing;
+  }
+
+  const info = document.context.obj({});
+  document.context.trailerInfo.Info = document.context.register(info);
+  return info;
+}
+
+function describe(prefix: string, namespace: string, properties: string[]): string {
+  if (properties.length === 0) {
+    return '';
+  }
+  return [
+    `<rdf:Description rdf:about="" xmlns:${prefix}="${namespace}">`,
+    ...properties,
+    '</rdf:Description>',
+  ].join('\n');
+}
+
+/**
+ * PDF/A extension schema declaring the custom pdfx properties (ISO 19005-1, 6.7.8)
+ */
+function describeExtensionSchema(keys: string[]): string {
+  const properties = keys.map(key =>
+    [
+      '<rdf:li rdf:parseType="Resource">',
+      `<pdfaProperty:name>${key}</pdfaProperty:name>`,
+      '<pdfaProperty:valueType>Text</pdfaProperty:valueType>',
+      '<pdfaProperty:category>external</pdfaProperty:category>',
+      '<pdfaProperty:description>Custom document property</pdfaProperty:description>',
+      '</rdf:li>',
+    ].join('')
+  );
+
+  return [
+    '<rdf:Description rdf:about=""',
+    ' xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"',
+    ' xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"',
+    ' xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">',
+    '<pdfaExtension:schemas><rdf:Bag><rdf:li rdf:parseType="Resource">',
+    '<pdfaSchema:schema>Custom document properties</pdfaSchema:schema>',
+    `<pdfaSchema:namespaceURI>${PDFX_NAMESPACE}</pdfaSchema:namespaceURI>`,
+    '<pdfaSchema:prefix>pdfx</pdfaSchema:prefix>',
+    '<pdfaSchema:property><rdf:Seq>',
+    ...properties,
+    '</rdf:Seq></pdfaSchema:property>',
+    '</rdf:li></rdf:Bag></pdfaExtension:schemas>',
+    '</rdf:Description>',
+  ].join('\n');
+}
+
+/**
+ * ISO 8601 without milliseconds, matching the precision of PDF date strings
+ */
+function formatDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function alt(value: string): string {
+  return `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}